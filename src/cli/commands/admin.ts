@@ -13,20 +13,17 @@ import { AztecAddress } from "@aztec/aztec.js/addresses";
 import type { AztecNode } from "@aztec/aztec.js/node";
 import { TestWallet } from "@aztec/test-wallet/server";
 import * as readline from "readline";
-import {
-  connectToContract,
-  getGameInfo,
-  getGameState,
-  PHASE,
-  PHASE_NAMES,
-  type GameState,
-} from "../services/contract.js";
-import { getSponsoredPaymentMethod } from "../services/wallet.js";
+import { PHASE, PHASE_NAMES, type GameReader, type GameState } from "../services/contract.js";
+import { describeError, WrongPhaseError } from "../services/errors.js";
 import {
   updateConfig,
-  getContractAddress,
   getEffectiveGameId,
+  trackGame,
+  validateGameAlias,
+  type GameRef,
 } from "../services/config.js";
+import { openClient } from "../utils/client.js";
+import { setExitCode } from "../utils/command.js";
 import * as display from "../utils/display.js";
 import * as prompts from "../utils/prompts.js";
 
@@ -39,14 +36,13 @@ export async function createGame(
   wallet: TestWallet,
   callerAddress: AztecAddress,
   node: AztecNode,
-  options: { min?: number; max?: number }
+  options: { min?: number; max?: number; alias?: string }
 ): Promise<void> {
-  const contractAddress = getContractAddress();
-  const contract = await connectToContract(
-    wallet,
-    AztecAddress.fromString(contractAddress),
-    node
-  );
+  const client = await openClient(wallet, callerAddress, node);
+
+  if (options.alias) {
+    validateGameAlias(options.alias);
+  }
 
   // Get participant limits
   let min = options.min;
@@ -60,28 +56,25 @@ export async function createGame(
 
   display.step(`Creating game with ${min}-${max} participants...`);
 
-  const paymentMethod = await getSponsoredPaymentMethod(wallet);
-  const txStart = Date.now();
-  await contract.methods
-    .create_game(min, max)
-    .send({ from: callerAddress, fee: { paymentMethod } })
-    .wait();
-  const txDuration = Date.now() - txStart;
-
-  // Get the new game ID
-  const nextGameId = await contract.methods
-    .get_next_game_id()
-    .simulate({ from: callerAddress });
-  const gameId = Number(nextGameId) - 1;
-
-  // Save as current game
+  const result = await client.createGame(min, max);
+  if (result.dryRun) {
+    display.dryRunNotice();
+    return;
+  }
+  const { gameId } = result;
+
+  // Save as current game and bookmark it
   updateConfig({ currentGameId: gameId });
+  trackGame(gameId, options.alias);
 
   display.success(`Game #${gameId} created!`);
-  display.txTiming("Transaction time", txDuration);
+  display.txReceipt(result);
   display.keyValue("Min participants", min.toString());
   display.keyValue("Max participants", max.toString());
   display.keyValue("Phase", PHASE_NAMES[PHASE.JOIN]);
+  if (options.alias) {
+    display.keyValue("Alias", options.alias);
+  }
   display.info(`Game ID saved. Use 'yarn cli status' to check game status.`);
 }
 
@@ -92,14 +85,9 @@ export async function advancePhase(
   wallet: TestWallet,
   callerAddress: AztecAddress,
   node: AztecNode,
-  options: { game?: number }
+  options: { game?: GameRef }
 ): Promise<void> {
-  const contractAddress = getContractAddress();
-  const contract = await connectToContract(
-    wallet,
-    AztecAddress.fromString(contractAddress),
-    node
-  );
+  const client = await openClient(wallet, callerAddress, node);
 
   const gameId = getEffectiveGameId(options.game);
 
@@ -108,57 +96,37 @@ export async function advancePhase(
     return;
   }
 
-  // Get current phase
-  const { phase: currentPhase, phaseName } = await getGameInfo(
-    contract,
-    BigInt(gameId),
-    callerAddress
-  );
+  display.step(`Advancing game #${gameId}...`);
 
-  if (currentPhase === PHASE.REVEAL) {
-    display.warn(`Game #${gameId} is already completed.`);
-    return;
+  let result;
+  try {
+    result = await client.advancePhase(gameId);
+  } catch (err) {
+    if (err instanceof WrongPhaseError) {
+      display.warn(err.message);
+      return;
+    }
+    throw err;
   }
 
-  display.step(`Advancing game #${gameId} from ${phaseName}...`);
-
-  const paymentMethod = await getSponsoredPaymentMethod(wallet);
-  const txStart = Date.now();
-  await contract.methods
-    .advance_phase(BigInt(gameId))
-    .send({ from: callerAddress, fee: { paymentMethod } })
-    .wait();
-  const txDuration = Date.now() - txStart;
-
-  // Get new phase
-  const { phase: newPhase, phaseName: newPhaseName } = await getGameInfo(
-    contract,
-    BigInt(gameId),
-    callerAddress
-  );
+  if (result.dryRun) {
+    display.dryRunNotice();
+    return;
+  }
 
   display.success(`Game #${gameId} advanced!`);
-  display.txTiming("Transaction time", txDuration);
-  display.keyValue("Previous phase", phaseName);
-  display.keyValue("Current phase", newPhaseName);
+  display.txReceipt(result);
+  display.keyValue("Previous phase", PHASE_NAMES[result.previousPhase]);
+  display.keyValue("Current phase", PHASE_NAMES[result.phase]);
 }
 
 /**
  * View game status.
  */
 export async function viewStatus(
-  wallet: TestWallet,
-  callerAddress: AztecAddress,
-  node: AztecNode,
-  options: { game?: number }
+  reader: GameReader,
+  options: { game?: GameRef }
 ): Promise<void> {
-  const contractAddress = getContractAddress();
-  const contract = await connectToContract(
-    wallet,
-    AztecAddress.fromString(contractAddress),
-    node
-  );
-
   const gameId = getEffectiveGameId(options.game);
 
   if (!gameId) {
@@ -166,8 +134,8 @@ export async function viewStatus(
     return;
   }
 
-  // Get full game state in single RPC call
-  const state = await getGameState(contract, BigInt(gameId), callerAddress);
+  // Get full game state in single call
+  const state = await reader.getGameState(BigInt(gameId));
 
   display.gameStatus(gameId, state.phase, state.participantCount, state.maxParticipants);
 
@@ -211,15 +179,8 @@ export async function interactiveDashboard(
   wallet: TestWallet,
   callerAddress: AztecAddress,
   node: AztecNode,
-  options: { game?: number }
+  options: { game?: GameRef }
 ): Promise<void> {
-  const contractAddress = getContractAddress();
-  const contract = await connectToContract(
-    wallet,
-    AztecAddress.fromString(contractAddress),
-    node
-  );
-
   const gameId = getEffectiveGameId(options.game);
 
   if (!gameId) {
@@ -232,6 +193,14 @@ export async function interactiveDashboard(
   let statusMessage = "";
   let pollInterval: NodeJS.Timeout | null = null;
 
+  // Fee estimates go to the status line instead of the screen
+  const client = await openClient(wallet, callerAddress, node, undefined, {
+    showPreflight: ({ estimate }) => {
+      statusMessage = display.chalk.yellow(`Submitting transaction (fee ~${display.formatFeeJuice(estimate.fee)})...`);
+      render();
+    },
+  });
+
   // Render the dashboard
   const render = () => {
     // Clear screen and move to top
@@ -352,7 +321,7 @@ export async function interactiveDashboard(
   // Fetch state and render
   const refreshState = async () => {
     try {
-      currentState = await getGameState(contract, BigInt(gameId), callerAddress);
+      currentState = await client.getState(gameId);
       render();
     } catch (err: any) {
       statusMessage = display.chalk.red(`Error: ${err.message}`);
@@ -369,18 +338,16 @@ export async function interactiveDashboard(
     render();
 
     try {
-      const paymentMethod = await getSponsoredPaymentMethod(wallet);
-      const txStart = Date.now();
-      await contract.methods
-        .advance_phase(BigInt(gameId))
-        .send({ from: callerAddress, fee: { paymentMethod } })
-        .wait();
-      const txDuration = Date.now() - txStart;
-
-      statusMessage = display.chalk.green(`Phase advanced! (${display.formatDuration(txDuration)})`);
+      const result = await client.advancePhase(gameId);
+
+      statusMessage = result.dryRun
+        ? display.chalk.yellow("Dry run: advancing would succeed; nothing was sent")
+        : display.chalk.green(`Phase advanced! (${display.formatDuration(result.durationMs)})`);
       await refreshState();
-    } catch (err: any) {
-      statusMessage = display.chalk.red(`Failed to advance: ${err.message}`);
+    } catch (err) {
+      const { message, hint } = describeError(err);
+      statusMessage = display.chalk.red(`Failed to advance: ${message}`);
+      if (hint) statusMessage += `\n  ${display.chalk.dim(hint)}`;
       render();
     } finally {
       isAdvancing = false;
@@ -393,21 +360,27 @@ export async function interactiveDashboard(
     process.stdin.setRawMode(true);
   }
 
+  // Resolves the dashboard's promise so the command returns
+  let close = () => {};
+
   const cleanup = () => {
     if (pollInterval) clearInterval(pollInterval);
+    process.stdin.off("keypress", onKeypress);
     if (process.stdin.isTTY) {
       process.stdin.setRawMode(false);
     }
+    process.stdin.pause();
     process.stdout.write("\x1b[?25h"); // Show cursor
     console.log("\n");
     display.info("Dashboard closed.");
+    close();
   };
 
   // Handle keypress
-  process.stdin.on("keypress", async (str, key) => {
+  const onKeypress = async (str: string, key: readline.Key) => {
     if (key.ctrl && key.name === "c") {
       cleanup();
-      process.exit(0);
+      return;
     }
 
     const keyName = key.name?.toLowerCase() || str?.toLowerCase();
@@ -424,10 +397,10 @@ export async function interactiveDashboard(
         break;
       case "q":
         cleanup();
-        process.exit(0);
         break;
     }
-  });
+  };
+  process.stdin.on("keypress", onKeypress);
 
   // Hide cursor
   process.stdout.write("\x1b[?25l");
@@ -468,8 +441,8 @@ export async function interactiveDashboard(
     }
   }, POLL_INTERVAL_MS);
 
-  // Keep alive
-  await new Promise(() => {});
+  // Keep alive until closed
+  await new Promise<void>((resolve) => (close = resolve));
 }
 
 /**
@@ -477,7 +450,8 @@ export async function interactiveDashboard(
  */
 export function registerAdminCommands(
   program: Command,
-  getWallet: () => Promise<{ wallet: TestWallet; accountAddress: AztecAddress; node: AztecNode }>
+  getWallet: () => Promise<{ wallet: TestWallet; accountAddress: AztecAddress; node: AztecNode }>,
+  getGameReader: () => Promise<{ reader: GameReader; node: AztecNode }>
 ): void {
   const admin = program
     .command("admin")
@@ -488,41 +462,42 @@ export function registerAdminCommands(
     .description("Create a new Secret Santa game")
     .option("--min <number>", "Minimum participants", parseInt)
     .option("--max <number>", "Maximum participants", parseInt)
+    .option("--alias <name>", "Bookmark the new game under this alias")
     .action(async (options) => {
       try {
         const { wallet, accountAddress, node } = await getWallet();
         await createGame(wallet, accountAddress, node, options);
       } catch (err: any) {
-        display.error(err.message);
-        process.exit(1);
+        display.failure(err);
+        setExitCode(1);
       }
     });
 
   admin
     .command("advance")
     .description("Advance game to the next phase")
-    .option("--game <id>", "Game ID", parseInt)
+    .option("--game <id>", "Game ID or alias")
     .action(async (options) => {
       try {
         const { wallet, accountAddress, node } = await getWallet();
         await advancePhase(wallet, accountAddress, node, options);
       } catch (err: any) {
-        display.error(err.message);
-        process.exit(1);
+        display.failure(err);
+        setExitCode(1);
       }
     });
 
   admin
     .command("status")
     .description("View game status (alias for global status)")
-    .option("--game <id>", "Game ID", parseInt)
+    .option("--game <id>", "Game ID or alias")
     .action(async (options) => {
       try {
-        const { wallet, accountAddress, node } = await getWallet();
-        await viewStatus(wallet, accountAddress, node, options);
+        const { reader } = await getGameReader();
+        await viewStatus(reader, options);
       } catch (err: any) {
-        display.error(err.message);
-        process.exit(1);
+        display.failure(err);
+        setExitCode(1);
       }
     });
 
@@ -530,14 +505,14 @@ export function registerAdminCommands(
     .command("dashboard")
     .alias("dash")
     .description("Interactive admin dashboard with live updates")
-    .option("--game <id>", "Game ID", parseInt)
+    .option("--game <id>", "Game ID or alias")
     .action(async (options) => {
       try {
         const { wallet, accountAddress, node } = await getWallet();
         await interactiveDashboard(wallet, accountAddress, node, options);
       } catch (err: any) {
-        display.error(err.message);
-        process.exit(1);
+        display.failure(err);
+        setExitCode(1);
       }
     });
 }
@@ -0,0 +1,66 @@
+/**
+ * Cache Commands - Manage the wallet state kept between runs
+ *
+ * Commands:
+ * - cache list: Show cached wallet stores and their size
+ * - cache clear: Delete cached stores so the next run starts fresh
+ */
+
+import { Command } from "commander";
+import { clearPXECache, getPXECacheDir, listPXEStores } from "../services/pxe.js";
+import { setExitCode } from "../utils/command.js";
+import * as display from "../utils/display.js";
+
+/**
+ * List cached wallet stores.
+ */
+export function showCache(): void {
+  display.header("Wallet Cache");
+  display.keyValue("Location", getPXECacheDir());
+
+  const stores = listPXEStores();
+  if (stores.length === 0) {
+    display.info("Nothing cached yet");
+  }
+  for (const { network, account, sizeBytes } of stores) {
+    display.keyValue(`${network} / ${account}`, display.formatBytes(sizeBytes));
+  }
+  display.divider();
+}
+
+/**
+ * Register cache commands with commander.
+ */
+export function registerCacheCommands(program: Command): void {
+  const cache = program
+    .command("cache")
+    .description("Manage the wallet state cached between runs");
+
+  cache
+    .command("list")
+    .alias("ls")
+    .description("List cached wallet stores")
+    .action(() => {
+      try {
+        showCache();
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  cache
+    .command("clear")
+    .description("Delete cached wallet state (synced notes, registered contracts)")
+    .option("--network", "Only clear the current network's stores")
+    .action((options: { network?: boolean }) => {
+      try {
+        const removed = clearPXECache(options.network);
+        display.success(`Cleared ${removed} cached store(s)`);
+        display.info("The next command rebuilds wallet state from the node");
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+}
@@ -0,0 +1,215 @@
+/**
+ * Config Commands - Inspect and edit CLI configuration
+ *
+ * Commands:
+ * - config get: Show effective values and where they came from
+ * - config set: Write a single key to the config file
+ * - config unset: Remove a single key from the config file
+ * - config set-node: Use a custom Aztec node URL
+ * - config doctor: Report and fix invalid config entries
+ */
+
+import { Command } from "commander";
+import {
+  loadConfig,
+  setCustomNodeUrl,
+  resolveConfig,
+  formatConfigSource,
+  setConfigValue,
+  unsetConfigValue,
+  isConfigKey,
+  CONFIG_KEYS,
+  CONFIG_ENV_VARS,
+  CONFIG_VERSION,
+  diagnoseConfig,
+  repairConfig,
+  type ConfigKey,
+} from "../services/config.js";
+import { setExitCode } from "../utils/command.js";
+import * as display from "../utils/display.js";
+import * as prompts from "../utils/prompts.js";
+
+/**
+ * Parse a config key argument, listing valid keys on error.
+ */
+function parseKey(key: string): ConfigKey {
+  if (!isConfigKey(key)) {
+    throw new Error(`Unknown config key "${key}". Valid keys: ${CONFIG_KEYS.join(", ")}`);
+  }
+  return key;
+}
+
+/**
+ * Show one or all effective config values with their sources.
+ */
+export function getConfig(key?: string): void {
+  const { profile, config, sources } = resolveConfig();
+  const keys = key ? [parseKey(key)] : CONFIG_KEYS;
+
+  display.header(`Config (profile: ${profile})`);
+  for (const k of keys) {
+    const value = config[k];
+    const formatted = value === undefined ? "(not set)" : String(value);
+    display.keyValue(k, `${formatted} ${display.chalk.dim(`(${formatConfigSource(sources[k])})`)}`);
+  }
+  display.divider();
+
+  if (!key) {
+    display.info(`Env overrides: ${Object.values(CONFIG_ENV_VARS).join(", ")}`);
+  }
+}
+
+/**
+ * Save a custom node URL for the active profile.
+ */
+export async function setNode(
+  url: string | undefined,
+  options: { prover?: boolean }
+): Promise<void> {
+  const nodeUrl = url || await prompts.promptNodeUrl(loadConfig().nodeUrl);
+  const config = setCustomNodeUrl(nodeUrl, options.prover);
+
+  display.success(`Using custom node ${config.nodeUrl}`);
+  if (config.proverEnabled === undefined) {
+    display.info("You'll be asked whether proving is needed on the next connect");
+  } else {
+    display.keyValue("Proving", config.proverEnabled ? "enabled" : "disabled");
+  }
+  display.keyValue("Contract", config.contractAddress || "(not set)");
+}
+
+/**
+ * Check config files and environment overrides, optionally fixing them.
+ */
+export function doctor(options: { fix?: boolean }): void {
+  const { files, overrides } = diagnoseConfig();
+  let problems = 0;
+
+  display.header("Config Doctor");
+  for (const report of files) {
+    if (!report.exists) {
+      display.keyValue(report.path, display.chalk.dim("(not present)"));
+      continue;
+    }
+
+    const upToDate = report.version === CONFIG_VERSION;
+    const clean = !report.error && upToDate && report.issues.length === 0;
+    display.keyValue(report.path, clean ? display.chalk.green("ok") : `schema v${report.version ?? "?"}`);
+
+    if (report.error) {
+      display.error(`  File ${report.error}`);
+      problems++;
+      continue;
+    }
+    for (const migration of report.migrations) {
+      display.warn(`  Needs migration ${migration}`);
+      problems++;
+    }
+    for (const issue of report.issues) {
+      display.warn(`  ${issue.path}: ${issue.problem} ${display.chalk.dim(`(fix: ${issue.fix})`)}`);
+      problems++;
+    }
+  }
+
+  for (const issue of overrides) {
+    display.warn(`${issue.path}: ${issue.problem} ${display.chalk.dim(`(fix: ${issue.fix})`)}`);
+    problems++;
+  }
+  display.divider();
+
+  if (problems === 0) {
+    display.success("No problems found");
+    return;
+  }
+
+  if (!options.fix) {
+    display.info(`${problems} problem(s) found. Run 'yarn cli config doctor --fix' to repair the config files.`);
+    return;
+  }
+
+  const repaired = repairConfig(files);
+  for (const { path, backup } of repaired) {
+    display.success(`Repaired ${path} (backup saved to ${backup})`);
+  }
+  if (overrides.length > 0) {
+    display.info("Environment variables must be fixed in your shell");
+  }
+}
+
+/**
+ * Register config commands with commander.
+ */
+export function registerConfigCommands(program: Command): void {
+  const config = program
+    .command("config")
+    .description("Inspect and edit CLI configuration");
+
+  config
+    .command("get [key]")
+    .description(`Show effective config values (${CONFIG_KEYS.join(", ")})`)
+    .action((key: string | undefined) => {
+      try {
+        getConfig(key);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  config
+    .command("set <key> <value>")
+    .description("Write a config key for the active profile")
+    .option("--global", "Write to the global config file (~/.zk-santa.json)")
+    .action((key: string, value: string, options: { global?: boolean }) => {
+      try {
+        const k = parseKey(key);
+        const updated = setConfigValue(k, value, options.global);
+        display.success(`Set ${k} = ${updated[k]}`);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  config
+    .command("unset <key>")
+    .description("Remove a config key from the active profile")
+    .option("--global", "Remove from the global config file (~/.zk-santa.json)")
+    .action((key: string, options: { global?: boolean }) => {
+      try {
+        const k = parseKey(key);
+        const updated = unsetConfigValue(k, options.global);
+        display.success(`Unset ${k} (now ${updated[k] ?? "(not set)"})`);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  config
+    .command("set-node [url]")
+    .description("Use a custom Aztec node URL for the active profile")
+    .option("--prover", "The node requires real proofs")
+    .option("--no-prover", "The node does not verify proofs (e.g. a local sandbox)")
+    .action(async (url: string | undefined, options: { prover?: boolean }) => {
+      try {
+        await setNode(url, options);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  config
+    .command("doctor")
+    .description("Check config files for invalid entries and migrate old layouts")
+    .option("--fix", "Rewrite the files, removing invalid entries (keeps a .bak copy)")
+    .action((options: { fix?: boolean }) => {
+      try {
+        doctor(options);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+}
@@ -0,0 +1,175 @@
+/**
+ * Daemon Commands - Keep the wallet warm in a background process
+ *
+ * Commands:
+ * - daemon start: Unlock the account once and start the daemon
+ * - daemon stop: Stop the daemon
+ * - daemon status: Show what the daemon is serving
+ */
+
+import { Command } from "commander";
+import { spawn } from "child_process";
+import { Fr } from "@aztec/aztec.js/fields";
+import {
+  getDaemonStatus,
+  initDaemon,
+  runDaemon,
+  stopDaemon,
+  waitForDaemon,
+  type DaemonHandlers,
+} from "../services/daemon.js";
+import { getActiveProfileName } from "../services/config.js";
+import { setExitCode } from "../utils/command.js";
+import * as display from "../utils/display.js";
+
+// Default idle time before the daemon exits
+const DEFAULT_IDLE_MINUTES = 60;
+
+function parseIdleMinutes(value: string | undefined): number {
+  const minutes = value === undefined ? DEFAULT_IDLE_MINUTES : Number(value);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    throw new Error(`Invalid idle timeout: ${value}. Use a number of minutes (0 = never).`);
+  }
+  return minutes;
+}
+
+/**
+ * Start the daemon with this session's account.
+ */
+export async function startDaemon(
+  getAccountSecretKey: () => Promise<{ secretKey: Fr; source: string }>,
+  options: { idleTimeout?: string }
+): Promise<void> {
+  const minutes = parseIdleMinutes(options.idleTimeout);
+  const running = await getDaemonStatus();
+  if (running) {
+    display.info(`Daemon already running (pid ${running.pid}, profile "${running.profile}", ${running.network})`);
+    return;
+  }
+
+  // Unlock here, where prompts can reach the terminal
+  const { secretKey, source } = await getAccountSecretKey();
+
+  display.step("Starting daemon...");
+  // Re-run this CLI (with the same loader flags) as a detached daemon. It
+  // signs with the account handed to it, never a passphrase from the env.
+  const { ZK_PASSPHRASE: _, ...env } = process.env;
+  const daemon = spawn(
+    process.execPath,
+    [...process.execArgv, process.argv[1], "daemon", "run", "--idle-timeout", String(minutes)],
+    {
+      detached: true,
+      stdio: "ignore",
+      env: { ...env, ZK_PROFILE: getActiveProfileName() },
+    }
+  );
+  daemon.unref();
+  await waitForDaemon();
+
+  display.step(`Loading wallet from ${source}...`);
+  let status;
+  try {
+    status = await initDaemon(secretKey.toBuffer(), source);
+  } catch (err) {
+    await stopDaemon().catch(() => undefined);
+    throw err;
+  }
+
+  display.success(`Daemon started (pid ${status.pid})`);
+  display.keyValue("Profile", status.profile);
+  display.keyValue("Network", status.network);
+  display.keyValue("Account", status.account ?? "(none)");
+  display.info(minutes > 0 ? `Stops after ${minutes} idle minute(s), or with 'yarn cli daemon stop'.` : "Runs until 'yarn cli daemon stop'.");
+}
+
+/**
+ * Show the daemon's status.
+ */
+export async function showDaemonStatus(): Promise<void> {
+  const status = await getDaemonStatus();
+  display.header("Daemon");
+  if (!status) {
+    display.info("Not running. Start it with 'yarn cli daemon start'.");
+    return;
+  }
+  display.keyValue("PID", status.pid);
+  display.keyValue("Started", new Date(status.startedAt).toLocaleString());
+  display.keyValue("Profile", status.profile);
+  display.keyValue("Network", status.network);
+  display.keyValue("Account", status.account ? `${status.account} (${status.accountSource})` : "(none)");
+  display.keyValue("Commands served", status.commandsServed);
+  if (status.lastCommandAt) {
+    display.keyValue("Last command", new Date(status.lastCommandAt).toLocaleString());
+  }
+  display.keyValue("Idle timeout", status.idleTimeoutMs > 0 ? display.formatDuration(status.idleTimeoutMs) : "never");
+  display.divider();
+}
+
+/**
+ * Register daemon commands with commander.
+ */
+export function registerDaemonCommands(
+  program: Command,
+  getAccountSecretKey: () => Promise<{ secretKey: Fr; source: string }>,
+  handlers: DaemonHandlers
+): void {
+  const daemon = program
+    .command("daemon")
+    .description("Run a background process that keeps the wallet warm");
+
+  daemon
+    .command("start")
+    .description("Start the daemon with your account; commands then run through it")
+    .option("--idle-timeout <minutes>", `Stop after this many idle minutes, 0 for never (default: ${DEFAULT_IDLE_MINUTES})`)
+    .action(async (options) => {
+      try {
+        await startDaemon(getAccountSecretKey, options);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  daemon
+    .command("stop")
+    .description("Stop the daemon")
+    .action(async () => {
+      try {
+        if (await stopDaemon()) {
+          display.success("Daemon stopped");
+        } else {
+          display.info("Daemon was not running");
+        }
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  daemon
+    .command("status")
+    .description("Show whether the daemon is running and what it serves")
+    .action(async () => {
+      try {
+        await showDaemonStatus();
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  // Started by `daemon start`; not meant to be run by hand
+  daemon
+    .command("run", { hidden: true })
+    .option("--idle-timeout <minutes>")
+    .action(async (options) => {
+      try {
+        await runDaemon(handlers, parseIdleMinutes(options.idleTimeout) * 60_000);
+        // The wallet's store and node client would keep the process alive
+        process.exit(0);
+      } catch (err: any) {
+        display.failure(err);
+        process.exit(1);
+      }
+    });
+}
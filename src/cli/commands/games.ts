@@ -0,0 +1,144 @@
+/**
+ * Games Commands - Bookmark games on the current contract
+ *
+ * Commands:
+ * - games add: Track a game, optionally with an alias
+ * - games list: Show tracked games with their live phase
+ * - games use: Make a tracked game the current game
+ * - games remove: Stop tracking a game
+ */
+
+import { Command } from "commander";
+import type { AztecNode } from "@aztec/aztec.js/node";
+import type { GameReader } from "../services/contract.js";
+import {
+  loadConfig,
+  getTrackedGames,
+  trackGame,
+  untrackGame,
+  resolveGameRef,
+  setCurrentGameId,
+  parseGameId,
+  type TrackedGame,
+} from "../services/config.js";
+import { setExitCode } from "../utils/command.js";
+import * as display from "../utils/display.js";
+
+/**
+ * Format a tracked game for display, e.g. "#3 (family-2026)".
+ */
+function formatGame(game: TrackedGame): string {
+  return game.alias ? `#${game.id} (${game.alias})` : `#${game.id}`;
+}
+
+/**
+ * List tracked games with their live phase and participant counts.
+ * The reader is only opened once there are games to read.
+ */
+export async function listGames(getGameReader: () => Promise<{ reader: GameReader }>): Promise<void> {
+  const config = loadConfig();
+  const games = getTrackedGames();
+
+  // Always include the current game, even if it isn't bookmarked
+  if (config.currentGameId !== undefined && !games.some((game) => game.id === config.currentGameId)) {
+    games.push({ id: config.currentGameId });
+  }
+
+  display.header("Tracked Games");
+  if (games.length === 0) {
+    display.info("No games tracked yet. Add one with 'yarn cli games add <id> --alias <name>'");
+    return;
+  }
+  if (!config.contractAddress) {
+    display.error("No contract configured. Run 'yarn cli setup' first.");
+    return;
+  }
+
+  const { reader } = await getGameReader();
+
+  for (const game of games) {
+    const marker = game.id === config.currentGameId ? display.chalk.green("●") : display.chalk.gray("○");
+    try {
+      const state = await reader.getGameState(BigInt(game.id));
+      const counts = `${state.participantCount}/${state.maxParticipants} players, ${state.senderCount} senders, ${state.receiverCount} receivers`;
+      console.log(`  ${marker} ${display.chalk.bold(formatGame(game))}  ${state.phaseName}  ${display.chalk.dim(counts)}`);
+    } catch (err: any) {
+      console.log(`  ${marker} ${display.chalk.bold(formatGame(game))}  ${display.chalk.red(`unavailable: ${err.message}`)}`);
+    }
+  }
+  display.divider();
+  display.info("Pass an alias anywhere --game is accepted, e.g. --game family-2026");
+}
+
+/**
+ * Register games commands with commander.
+ */
+export function registerGamesCommands(
+  program: Command,
+  getGameReader: () => Promise<{ reader: GameReader; node: AztecNode }>
+): void {
+  const games = program
+    .command("games")
+    .description("Bookmark games on the current contract");
+
+  games
+    .command("add <id>")
+    .description("Track a game (or rename a tracked game's alias)")
+    .option("--alias <name>", "Human-friendly name, e.g. family-2026")
+    .option("--use", "Also make it the current game")
+    .action((id: string, options: { alias?: string; use?: boolean }) => {
+      try {
+        const game = trackGame(parseGameId(id), options.alias);
+        display.success(`Tracking game ${formatGame(game)}`);
+        if (options.use) {
+          setCurrentGameId(game.id);
+          display.success(`Current game is now ${formatGame(game)}`);
+        }
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  games
+    .command("list")
+    .alias("ls")
+    .description("Show tracked games with their live phase and participant counts")
+    .action(async () => {
+      try {
+        await listGames(getGameReader);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  games
+    .command("use <game>")
+    .description("Make a game (ID or alias) the current game")
+    .action((ref: string) => {
+      try {
+        const id = resolveGameRef(ref);
+        const game = getTrackedGames().find((tracked) => tracked.id === id) ?? trackGame(id);
+        setCurrentGameId(id);
+        display.success(`Current game is now ${formatGame(game)}`);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  games
+    .command("remove <game>")
+    .alias("rm")
+    .description("Stop tracking a game (ID or alias)")
+    .action((ref: string) => {
+      try {
+        const game = untrackGame(ref);
+        display.success(`No longer tracking game ${formatGame(game)}`);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+}
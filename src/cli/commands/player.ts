@@ -6,59 +6,121 @@
  * - register: Register as sender (claim a slot)
  * - claim: Claim as receiver (select someone else's slot)
  * - delivery: View delivery data for your slot
+ * - journal: Show what you've done in each game
  */
 
 import { Command } from "commander";
 import { AztecAddress } from "@aztec/aztec.js/addresses";
 import { Fr } from "@aztec/aztec.js/fields";
 import type { AztecNode } from "@aztec/aztec.js/node";
-import { deriveSigningKey } from "@aztec/stdlib/keys";
 import { TestWallet } from "@aztec/test-wallet/server";
-import { connectToContract, getGameInfo, getGameState, PHASE, PHASE_NAMES } from "../services/contract.js";
-import { getEncryptionPublicKey, getSponsoredPaymentMethod } from "../services/wallet.js";
-import { encryptDeliveryData, decryptDeliveryData, isEncryptedDataEmpty } from "../services/crypto.js";
-import { getContractAddress, getEffectiveGameId } from "../services/config.js";
+import { SecretSantaClient } from "../services/client.js";
+import { PHASE, PHASE_NAMES } from "../services/contract.js";
+import { DecryptionFailedError, describeError, NoDeliveryDataError, NotSlotOwnerError } from "../services/errors.js";
+import { isTransientError } from "../services/policy.js";
+import {
+  getEffectiveGameId,
+  getDeploymentKey,
+  loadConfig,
+  type GameRef,
+} from "../services/config.js";
+import {
+  getJournalKey,
+  getJournalEntry,
+  recordJournal,
+  listJournalEntries,
+  getJournalPath,
+  type JournalAction,
+} from "../services/journal.js";
+import { openClient } from "../utils/client.js";
+import { setExitCode } from "../utils/command.js";
 import * as display from "../utils/display.js";
 import * as prompts from "../utils/prompts.js";
-import type { SecretSantaContract } from "../../../artifacts/SecretSanta.js";
 
 const POLL_INTERVAL_MS = 12000; // 12 seconds
 
 /**
  * Poll for phase change. Returns when phase changes from currentPhase.
+ * Keeps polling through node outages, warning once per outage; other
+ * failures (e.g. the game is gone) end the wait.
  */
 async function waitForPhaseChange(
-  contract: SecretSantaContract,
-  gameId: bigint,
-  currentPhase: number,
-  callerAddress: AztecAddress
+  client: SecretSantaClient,
+  gameId: number,
+  currentPhase: number
 ): Promise<number> {
   display.divider();
   display.info(`Waiting for phase change... (polling every ${POLL_INTERVAL_MS / 1000}s, Ctrl+C to exit)`);
 
   let lastPhase = currentPhase;
+  let failing = false;
 
   while (true) {
     await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
 
     try {
-      const { phase, phaseName } = await getGameInfo(contract, gameId, callerAddress);
+      const phase = await client.getPhase(gameId);
 
       if (phase !== lastPhase) {
         display.divider();
-        display.success(`Phase changed to: ${phaseName}`);
+        display.success(`Phase changed to: ${PHASE_NAMES[phase]}`);
         return phase;
       }
 
+      if (failing) {
+        display.success("Node reachable again, still waiting");
+        failing = false;
+      }
       // Show a dot to indicate we're still polling
       process.stdout.write(".");
     } catch (err) {
-      // Ignore errors during polling, just keep trying
-      process.stdout.write("x");
+      if (!isTransientError(err)) throw err;
+      if (!failing) {
+        console.log("");
+        display.warn(`Couldn't read the phase: ${describeError(err).message}. Retrying...`);
+        failing = true;
+      }
     }
   }
 }
 
+/**
+ * Get the caller's sender slot from an option, their journal, or a prompt.
+ */
+async function resolveSenderSlot(
+  client: SecretSantaClient,
+  slot: number | undefined,
+  gameId: number,
+  message: string
+): Promise<number> {
+  if (slot) return slot;
+
+  const journalSlot = getJournalEntry(getJournalKey(client.address.toString(), gameId, client.account))?.senderSlot;
+  if (journalSlot) {
+    display.info(`Using sender slot ${journalSlot} from your journal`);
+    return journalSlot;
+  }
+  return prompts.promptSlot(message);
+}
+
+/**
+ * Pick a free sender slot, updating the choices as others register.
+ */
+async function promptSenderSlot(client: SecretSantaClient, gameId: number): Promise<number> {
+  const state = await client.getState(gameId);
+  const fetchState = async () => {
+    const { senderSlots, receiverSlots, participantCount } = await client.getState(gameId);
+    return { senderSlots, receiverSlots, participantCount };
+  };
+
+  return prompts.promptSlotWithPolling(
+    "sender",
+    { senderSlots: state.senderSlots, receiverSlots: state.receiverSlots, participantCount: state.participantCount },
+    fetchState,
+    POLL_INTERVAL_MS
+  );
+}
+
 /**
  * Enroll in a game.
  */
@@ -67,14 +129,9 @@ export async function enroll(
   callerAddress: AztecAddress,
   secretKey: Fr,
   node: AztecNode,
-  options: { game?: number }
-): Promise<{ contract: SecretSantaContract; gameId: number } | void> {
-  const contractAddress = getContractAddress();
-  const contract = await connectToContract(
-    wallet,
-    AztecAddress.fromString(contractAddress),
-    node
-  );
+  options: { game?: GameRef }
+): Promise<{ client: SecretSantaClient; gameId: number } | void> {
+  const client = await openClient(wallet, callerAddress, node, secretKey);
 
   const gameId = getEffectiveGameId(options.game);
 
@@ -83,33 +140,29 @@ export async function enroll(
     return;
   }
 
-  // Check phase
-  const { phase, phaseName } = await getGameInfo(contract, BigInt(gameId), callerAddress);
-  if (phase !== PHASE.JOIN) {
-    display.error(`Cannot enroll. Game is in ${phaseName} phase.`);
+  display.step(`Enrolling in game #${gameId}...`);
+
+  const result = await client.enroll(gameId);
+  if (result.dryRun) {
+    display.dryRunNotice();
     return;
   }
+  const { txHash } = result;
 
-  display.step(`Enrolling in game #${gameId}...`);
-
-  const paymentMethod = await getSponsoredPaymentMethod(wallet);
-  const txStart = Date.now();
-  await contract
-    .withWallet(wallet)
-    .methods.enroll(BigInt(gameId))
-    .send({ from: callerAddress, fee: { paymentMethod } })
-    .wait();
-  const txDuration = Date.now() - txStart;
+  recordJournal(getJournalKey(client.address.toString(), gameId, callerAddress), {
+    action: "enroll",
+    txHash,
+  });
 
   display.success(`Enrolled in game #${gameId}!`);
-  display.txTiming("Transaction time", txDuration);
+  display.txReceipt(result);
 
   // Wait for phase change
-  const newPhase = await waitForPhaseChange(contract, BigInt(gameId), PHASE.JOIN, callerAddress);
+  const newPhase = await waitForPhaseChange(client, gameId, PHASE.JOIN);
 
   if (newPhase === PHASE.CLAIM) {
     display.info("You can now register as a sender. Pick a slot number.");
-    return { contract, gameId };
+    return { client, gameId };
   }
 }
 
@@ -121,14 +174,9 @@ export async function registerAsSender(
   callerAddress: AztecAddress,
   secretKey: Fr,
   node: AztecNode,
-  options: { game?: number; slot?: number }
-): Promise<{ contract: SecretSantaContract; gameId: number; senderSlot: number } | void> {
-  const contractAddress = getContractAddress();
-  const contract = await connectToContract(
-    wallet,
-    AztecAddress.fromString(contractAddress),
-    node
-  );
+  options: { game?: GameRef; slot?: number }
+): Promise<{ client: SecretSantaClient; gameId: number; senderSlot: number } | void> {
+  const client = await openClient(wallet, callerAddress, node, secretKey);
 
   const gameId = getEffectiveGameId(options.game);
 
@@ -137,84 +185,65 @@ export async function registerAsSender(
     return;
   }
 
-  // Get full game state in single RPC call
-  display.step("Fetching game state...");
-  const state = await getGameState(contract, BigInt(gameId), callerAddress);
-  if (state.phase !== PHASE.CLAIM) {
-    display.error(`Cannot register as sender. Game is in ${state.phaseName} phase.`);
-    return;
-  }
-
   // Get slot - with live polling if interactive
   let slot = options.slot;
   if (!slot) {
-    const availableSlots: number[] = [];
-    for (let i = 1; i <= state.participantCount; i++) {
-      if (!state.senderSlots.includes(i)) {
-        availableSlots.push(i);
-      }
-    }
-    if (availableSlots.length === 0) {
-      display.error("No available slots remaining.");
+    display.step("Fetching game state...");
+    const state = await client.getState(gameId);
+    if (state.phase !== PHASE.CLAIM) {
+      display.error(`Cannot register as sender. Game is in ${state.phaseName} phase.`);
       return;
     }
-
-    // Create state fetcher for live polling
-    const fetchState = async () => {
-      const newState = await getGameState(contract, BigInt(gameId), callerAddress);
-      return {
-        senderSlots: newState.senderSlots,
-        receiverSlots: newState.receiverSlots,
-        participantCount: newState.participantCount,
-      };
-    };
-
-    slot = await prompts.promptSlotWithPolling(
-      "sender",
-      { senderSlots: state.senderSlots, receiverSlots: state.receiverSlots, participantCount: state.participantCount },
-      fetchState,
-      POLL_INTERVAL_MS
-    );
-  } else {
-    // Validate provided slot is available
-    if (state.senderSlots.includes(slot)) {
-      display.error(`Slot ${slot} is already claimed. Choose a different slot.`);
+    if (state.senderSlots.length >= state.participantCount) {
+      display.error("No available slots remaining.");
       return;
     }
+    slot = await promptSenderSlot(client, gameId);
   }
 
-  // Get encryption public key from secret key
-  display.step("Deriving encryption key...");
-  const encryptionKey = await getEncryptionPublicKey(secretKey);
+  return registerSlot(client, gameId, slot);
+}
 
+/**
+ * Register for a chosen slot, then wait for the match phase.
+ */
+async function registerSlot(
+  client: SecretSantaClient,
+  gameId: number,
+  slot: number
+): Promise<{ client: SecretSantaClient; gameId: number; senderSlot: number } | void> {
   display.step(`Registering as sender for slot ${slot}...`);
 
-  const paymentMethod = await getSponsoredPaymentMethod(wallet);
-  const txStart = Date.now();
-  await contract
-    .withWallet(wallet)
-    .methods.register_as_sender(BigInt(gameId), slot, encryptionKey)
-    .send({ from: callerAddress, fee: { paymentMethod } })
-    .wait();
-  const txDuration = Date.now() - txStart;
+  const result = await client.registerSender(gameId, slot);
+  if (result.dryRun) {
+    display.dryRunNotice();
+    return;
+  }
+  const { txHash } = result;
+
+  recordJournal(getJournalKey(client.address.toString(), gameId, client.account), {
+    senderSlot: slot,
+    action: "register",
+    txHash,
+  });
 
   display.success(`Registered as sender for slot ${slot}!`);
   display.keyValue("Your slot", slot.toString());
-  display.txTiming("Transaction time", txDuration);
+  display.txReceipt(result);
 
   // Wait for phase change
-  const newPhase = await waitForPhaseChange(contract, BigInt(gameId), PHASE.CLAIM, callerAddress);
+  const newPhase = await waitForPhaseChange(client, gameId, PHASE.CLAIM);
 
   if (newPhase === PHASE.MATCH) {
     display.info("You can now claim as a receiver. Your slot will be auto-assigned.");
-    return { contract, gameId, senderSlot: slot };
+    return { client, gameId, senderSlot: slot };
   }
 }
 
 /**
  * Claim as receiver using cyclic permutation.
  *
- * Your receiver slot is automatically assigned: (your_sender_slot % participant_count) + 1
+ * Your receiver slot is automatically assigned: ((your_sender_slot - 1 + 137) % participant_count) + 1
  * This guarantees a valid derangement (no one receives from themselves).
  */
 export async function claimAsReceiver(
@@ -222,14 +251,9 @@ export async function claimAsReceiver(
   callerAddress: AztecAddress,
   secretKey: Fr,
   node: AztecNode,
-  options: { game?: number; senderSlot?: number }
-): Promise<{ contract: SecretSantaContract; gameId: number; senderSlot: number } | void> {
-  const contractAddress = getContractAddress();
-  const contract = await connectToContract(
-    wallet,
-    AztecAddress.fromString(contractAddress),
-    node
-  );
+  options: { game?: GameRef; senderSlot?: number }
+): Promise<{ client: SecretSantaClient; gameId: number; senderSlot: number } | void> {
+  const client = await openClient(wallet, callerAddress, node, secretKey);
 
   const gameId = getEffectiveGameId(options.game);
 
@@ -238,76 +262,66 @@ export async function claimAsReceiver(
     return;
   }
 
-  // Get full game state in single RPC call
-  display.step("Fetching game state...");
-  const state = await getGameState(contract, BigInt(gameId), callerAddress);
-  if (state.phase !== PHASE.MATCH) {
-    display.error(`Cannot claim as receiver. Game is in ${state.phaseName} phase.`);
+  // Check phase before asking for anything
+  const phase = await client.getPhase(gameId);
+  if (phase !== PHASE.MATCH) {
+    display.error(`Cannot claim as receiver. Game is in ${PHASE_NAMES[phase]} phase.`);
     return;
   }
 
-  // Get sender slot (from options or prompt)
-  let senderSlot = options.senderSlot;
-  if (!senderSlot) {
-    senderSlot = await prompts.promptSlot("Enter YOUR sender slot number:");
-  }
+  // Get sender slot (from options, journal or prompt)
+  const senderSlot = await resolveSenderSlot(client, options.senderSlot, gameId, "Enter YOUR sender slot number:");
 
-  // Calculate receiver slot using cyclic permutation with prime offset
-  // Formula: ((slot - 1 + 137) % count) + 1
-  const participantCount = state.participantCount;
-  const targetSlot = ((senderSlot - 1 + 137) % participantCount) + 1;
+  return claimSlot(client, gameId, senderSlot);
+}
+
+/**
+ * Claim the receiver slot assigned to a sender slot, then wait for the reveal phase.
+ */
+async function claimSlot(
+  client: SecretSantaClient,
+  gameId: number,
+  senderSlot: number
+): Promise<{ client: SecretSantaClient; gameId: number; senderSlot: number } | void> {
+  const { participantCount } = await client.getState(gameId);
+  const targetSlot = SecretSantaClient.receiverSlotFor(senderSlot, participantCount);
 
   display.info(`Your sender slot: ${senderSlot}`);
   display.info(`Assigned receiver slot (cyclic): ${targetSlot}`);
 
-  // Get sender's encryption key for the target slot
-  const senderKey = await contract.methods
-    .get_slot_encryption_key(BigInt(gameId), BigInt(targetSlot))
-    .simulate({ from: callerAddress });
-
+  const senderKey = await client.getSlotEncryptionKey(gameId, targetSlot);
   display.info(`Slot ${targetSlot} sender's public key: ${display.formatAddress(senderKey.x.toString())}`);
 
   // Get delivery address from user
   const deliveryAddress = await prompts.promptDeliveryAddress();
 
-  // Encrypt delivery address using the sender's public key
-  display.step("Encrypting delivery address with sender's public key...");
+  display.step(`Encrypting delivery address and claiming as receiver (slot ${targetSlot} auto-assigned)...`);
 
-  let encryptedDeliveryData: [Fr, Fr, Fr, Fr, Fr, Fr, Fr, Fr];
-  try {
-    encryptedDeliveryData = await encryptDeliveryData(deliveryAddress, senderKey);
-    display.success("Delivery address encrypted!");
-  } catch (err: any) {
-    display.error(`Encryption failed: ${err.message}`);
+  const result = await client.claimReceiver(gameId, senderSlot, deliveryAddress);
+  if (result.dryRun) {
+    display.dryRunNotice();
     return;
   }
+  const { txHash } = result;
 
-  display.step(`Claiming as receiver (slot ${targetSlot} auto-assigned)...`);
-
-  const paymentMethod = await getSponsoredPaymentMethod(wallet);
-  const txStart = Date.now();
-  await contract
-    .withWallet(wallet)
-    .methods.claim_receiver(
-      BigInt(gameId),
-      participantCount,
-      encryptedDeliveryData
-    )
-    .send({ from: callerAddress, fee: { paymentMethod } })
-    .wait();
-  const txDuration = Date.now() - txStart;
+  recordJournal(getJournalKey(client.address.toString(), gameId, client.account), {
+    senderSlot,
+    receiverSlot: targetSlot,
+    action: "claim",
+    txHash,
+  });
 
   display.success(`Claimed as receiver! You will receive from slot ${targetSlot}.`);
-  display.txTiming("Transaction time", txDuration);
+  display.txReceipt(result);
   display.info("Your encrypted delivery address has been stored.");
   display.info(`The sender of slot ${targetSlot} will send you a gift!`);
 
   // Wait for phase change
-  const newPhase = await waitForPhaseChange(contract, BigInt(gameId), PHASE.MATCH, callerAddress);
+  const newPhase = await waitForPhaseChange(client, gameId, PHASE.MATCH);
 
   if (newPhase === PHASE.REVEAL) {
     display.info("Game complete! You can now view your recipient's delivery address.");
-    return { contract, gameId, senderSlot };
+    return { client, gameId, senderSlot };
   }
 }
 
@@ -319,14 +333,9 @@ export async function viewDeliveryData(
   callerAddress: AztecAddress,
   secretKey: Fr,
   node: AztecNode,
-  options: { game?: number; slot?: number }
+  options: { game?: GameRef; slot?: number }
 ): Promise<void> {
-  const contractAddress = getContractAddress();
-  const contract = await connectToContract(
-    wallet,
-    AztecAddress.fromString(contractAddress),
-    node
-  );
+  const client = await openClient(wallet, callerAddress, node, secretKey);
 
   const gameId = getEffectiveGameId(options.game);
 
@@ -335,72 +344,78 @@ export async function viewDeliveryData(
     return;
   }
 
-  // Check phase
-  const { phase, phaseName } = await getGameInfo(contract, BigInt(gameId), callerAddress);
-  if (phase < PHASE.MATCH) {
-    display.error(`No delivery data yet. Game is in ${phaseName} phase.`);
-    return;
-  }
+  // Get slot (from options, journal or prompt)
+  const slot = await resolveSenderSlot(client, options.slot, gameId, "Enter your sender slot number:");
 
-  // Get slot
-  let slot = options.slot;
-  if (!slot) {
-    slot = await prompts.promptSlot("Enter your sender slot number:");
-  }
+  await showDelivery(client, gameId, slot);
+}
 
-  display.step(`Retrieving delivery data for slot ${slot}...`);
+/**
+ * Read, decrypt and show the delivery data for a slot.
+ */
+async function showDelivery(client: SecretSantaClient, gameId: number, slot: number): Promise<void> {
+  display.step(`Retrieving and decrypting delivery data for slot ${slot}...`);
 
+  let delivery;
   try {
-    const deliveryData = await contract.methods
-      .get_slot_delivery_data(BigInt(gameId), BigInt(slot))
-      .simulate({ from: callerAddress });
-
-    // Issue 5 fix: Now using 8 fields instead of 4
-    if (isEncryptedDataEmpty([
-      deliveryData[0], deliveryData[1], deliveryData[2], deliveryData[3],
-      deliveryData[4], deliveryData[5], deliveryData[6], deliveryData[7]
-    ])) {
-      display.warn(`No delivery data found for slot ${slot}.`);
-      display.info("The receiver may not have claimed this slot yet.");
+    delivery = await client.readDelivery(gameId, slot);
+  } catch (err) {
+    // Expected outcomes rather than failures: explain and stop
+    if (err instanceof NoDeliveryDataError || err instanceof NotSlotOwnerError || err instanceof DecryptionFailedError) {
+      display.warn(err.message);
+      if (err.hint) display.info(err.hint);
       return;
     }
+    throw err;
+  }
 
-    display.header("Encrypted Delivery Data");
-    display.keyValue("Ephemeral PubKey X", deliveryData[0].toString().slice(0, 20) + "...");
-    display.keyValue("Ephemeral PubKey Y", deliveryData[1].toString().slice(0, 20) + "...");
-    display.keyValue("Ciphertext (6 fields)", "...");
+  if (delivery.legacyKey) {
+    display.info("This slot was registered with your signing key (before game-scoped keys).");
+  }
 
-    // Decrypt using the sender's private key (derived from the passphrase secret)
-    display.step("Decrypting with your private key...");
+  display.header("Decrypted Delivery Data");
+  display.success("Decryption successful!");
+  display.keyValue("Delivery Address", delivery.deliveryAddress);
+  display.divider();
+  display.info("Ship your gift to this address!");
+}
 
-    try {
-      // Derive the encryption private key from the secret key
-      // This is the same key that was used to generate the public key during registration
-      const encryptionPrivateKey = deriveSigningKey(secretKey);
-
-      const decryptedAddress = await decryptDeliveryData(
-        [
-          deliveryData[0], deliveryData[1], deliveryData[2], deliveryData[3],
-          deliveryData[4], deliveryData[5], deliveryData[6], deliveryData[7]
-        ],
-        encryptionPrivateKey
-      );
-
-      display.header("Decrypted Delivery Data");
-      display.success("Decryption successful!");
-      display.keyValue("Delivery Address", decryptedAddress);
-      display.divider();
-      display.info("Ship your gift to this address!");
-    } catch (decryptErr: any) {
-      display.warn("Decryption failed. This could mean:");
-      display.info("  - You're not the sender of this slot");
-      display.info("  - The data wasn't encrypted with your public key");
-      display.info("  - The encrypted data is corrupted");
-      display.keyValue("Error", decryptErr.message);
+/**
+ * Show journal entries for the current network and contract.
+ */
+export function showJournal(options: { game?: GameRef; all?: boolean }): void {
+  const config = loadConfig();
+  const entries = listJournalEntries(options.all ? {} : {
+    network: getDeploymentKey(config),
+    contractAddress: config.contractAddress?.toLowerCase(),
+    gameId: options.game !== undefined ? getEffectiveGameId(options.game) : undefined,
+  });
+
+  display.header("Player Journal");
+  if (entries.length === 0) {
+    display.info("No journal entries yet. They are recorded as you enroll, register and claim.");
+    return;
+  }
+
+  const actions: JournalAction[] = ["enroll", "register", "claim"];
+  for (const entry of entries) {
+    console.log(`  ${display.chalk.bold(`Game #${entry.gameId}`)} ${display.chalk.dim(`(${entry.network})`)}`);
+    if (options.all) {
+      display.keyValue("  Contract", display.formatAddress(entry.contractAddress));
     }
-  } catch (err: any) {
-    display.error(`Failed to get delivery data: ${err.message}`);
+    display.keyValue("  Account", display.formatAddress(entry.account));
+    display.keyValue("  Sender slot", entry.senderSlot?.toString() || "(not registered)");
+    display.keyValue("  Receiver slot", entry.receiverSlot?.toString() || "(not claimed)");
+    for (const action of actions) {
+      const tx = entry.actions[action];
+      if (tx) {
+        display.keyValue(`  ${action}`, `${tx.timestamp} ${display.chalk.dim(tx.txHash)}`);
+      }
+    }
+    console.log("");
   }
+  display.divider();
+  display.info(`Journal file: ${getJournalPath()}`);
 }
 
 /**
@@ -413,7 +428,7 @@ export function registerPlayerCommands(
   program
     .command("enroll")
     .description("Enroll in a Secret Santa game")
-    .option("--game <id>", "Game ID", parseInt)
+    .option("--game <id>", "Game ID or alias")
     .action(async (options) => {
       try {
         const { wallet, accountAddress, secretKey, node } = await getWallet();
@@ -421,85 +436,55 @@ export function registerPlayerCommands(
 
         // Chain to register if phase changed
         if (result) {
-          // Fetch slot availability using single RPC call
-          const regState = await getGameState(result.contract, BigInt(result.gameId), accountAddress);
-
-          // Create state fetcher for live polling
-          const fetchRegState = async () => {
-            const s = await getGameState(result.contract, BigInt(result.gameId), accountAddress);
-            return { senderSlots: s.senderSlots, receiverSlots: s.receiverSlots, participantCount: s.participantCount };
-          };
-
-          const slot = await prompts.promptSlotWithPolling(
-            "sender",
-            { senderSlots: regState.senderSlots, receiverSlots: regState.receiverSlots, participantCount: regState.participantCount },
-            fetchRegState,
-            POLL_INTERVAL_MS
-          );
-          const registerResult = await registerAsSenderInternal(
-            wallet, accountAddress, secretKey, result.contract, result.gameId, slot
-          );
-
-          // Chain to claim if phase changed
+          const slot = await promptSenderSlot(result.client, result.gameId);
+          const registerResult = await registerSlot(result.client, result.gameId, slot);
+
+          // Chain to claim if phase changed (cyclic assignment picks the receiver slot)
           if (registerResult) {
-            // No slot selection needed - cyclic assignment handles it automatically
-            const claimResult = await claimAsReceiverInternal(
-              wallet, accountAddress, secretKey, registerResult.contract,
-              registerResult.gameId, registerResult.senderSlot
-            );
+            const claimResult = await claimSlot(result.client, result.gameId, registerResult.senderSlot);
 
             // Chain to delivery if phase changed
             if (claimResult) {
-              await viewDeliveryData(wallet, accountAddress, secretKey, node, {
-                game: claimResult.gameId,
-                slot: claimResult.senderSlot,
-              });
+              await showDelivery(result.client, result.gameId, claimResult.senderSlot);
             }
           }
         }
       } catch (err: any) {
-        display.error(err.message);
-        process.exit(1);
+        display.failure(err);
+        setExitCode(1);
       }
     });
 
   program
     .command("register")
     .description("Register as sender (claim a slot)")
-    .option("--game <id>", "Game ID", parseInt)
+    .option("--game <id>", "Game ID or alias")
     .option("--slot <number>", "Slot number to claim", parseInt)
     .action(async (options) => {
       try {
         const { wallet, accountAddress, secretKey, node } = await getWallet();
         const result = await registerAsSender(wallet, accountAddress, secretKey, node, options);
 
-        // Chain to claim if phase changed
+        // Chain to claim if phase changed (cyclic assignment picks the receiver slot)
         if (result) {
-          // No slot selection needed - cyclic assignment handles it automatically
-          const claimResult = await claimAsReceiverInternal(
-            wallet, accountAddress, secretKey, result.contract,
-            result.gameId, result.senderSlot
-          );
+          const claimResult = await claimSlot(result.client, result.gameId, result.senderSlot);
 
           // Chain to delivery if phase changed
           if (claimResult) {
-            await viewDeliveryData(wallet, accountAddress, secretKey, node, {
-              game: claimResult.gameId,
-              slot: claimResult.senderSlot,
-            });
+            await showDelivery(claimResult.client, claimResult.gameId, claimResult.senderSlot);
           }
         }
       } catch (err: any) {
-        display.error(err.message);
-        process.exit(1);
+        display.failure(err);
+        setExitCode(1);
       }
     });
 
   program
     .command("claim")
     .description("Claim as receiver (auto-assigned via cyclic permutation)")
-    .option("--game <id>", "Game ID", parseInt)
-    .option("--sender-slot <number>", "Your sender slot number", parseInt)
+    .option("--game <id>", "Game ID or alias")
+    .option("--sender-slot <number>", "Your sender slot number (defaults to your journal)", parseInt)
     .action(async (options) => {
       try {
         const { wallet, accountAddress, secretKey, node } = await getWallet();
@@ -510,149 +495,40 @@ export function registerPlayerCommands(
 
         // Chain to delivery if phase changed
         if (result) {
-          await viewDeliveryData(wallet, accountAddress, secretKey, node, {
-            game: result.gameId,
-            slot: result.senderSlot,
-          });
+          await showDelivery(result.client, result.gameId, result.senderSlot);
         }
       } catch (err: any) {
-        display.error(err.message);
-        process.exit(1);
+        display.failure(err);
+        setExitCode(1);
       }
     });
 
   program
     .command("delivery")
     .description("View delivery data for your slot")
-    .option("--game <id>", "Game ID", parseInt)
-    .option("--slot <number>", "Your sender slot number", parseInt)
+    .option("--game <id>", "Game ID or alias")
+    .option("--slot <number>", "Your sender slot number (defaults to your journal)", parseInt)
     .action(async (options) => {
       try {
         const { wallet, accountAddress, secretKey, node } = await getWallet();
         await viewDeliveryData(wallet, accountAddress, secretKey, node, options);
       } catch (err: any) {
-        display.error(err.message);
-        process.exit(1);
+        display.failure(err);
+        setExitCode(1);
       }
     });
-}
-
-/**
- * Internal register function that reuses existing contract connection.
- */
-async function registerAsSenderInternal(
-  wallet: TestWallet,
-  callerAddress: AztecAddress,
-  secretKey: Fr,
-  contract: SecretSantaContract,
-  gameId: number,
-  slot: number
-): Promise<{ contract: SecretSantaContract; gameId: number; senderSlot: number } | void> {
-  // Check if slot is already claimed using single RPC call
-  const state = await getGameState(contract, BigInt(gameId), callerAddress);
-
-  if (state.senderSlots.includes(slot)) {
-    display.error(`Slot ${slot} is already claimed. Choose a different slot.`);
-    return;
-  }
-
-  // Get encryption public key from secret key
-  display.step("Deriving encryption key...");
-  const encryptionKey = await getEncryptionPublicKey(secretKey);
-
-  display.step(`Registering as sender for slot ${slot}...`);
-
-  const paymentMethod = await getSponsoredPaymentMethod(wallet);
-  const txStart = Date.now();
-  await contract
-    .withWallet(wallet)
-    .methods.register_as_sender(BigInt(gameId), slot, encryptionKey)
-    .send({ from: callerAddress, fee: { paymentMethod } })
-    .wait();
-  const txDuration = Date.now() - txStart;
-
-  display.success(`Registered as sender for slot ${slot}!`);
-  display.keyValue("Your slot", slot.toString());
-  display.txTiming("Transaction time", txDuration);
 
-  // Wait for phase change
-  const newPhase = await waitForPhaseChange(contract, BigInt(gameId), PHASE.CLAIM, callerAddress);
-
-  if (newPhase === PHASE.MATCH) {
-    display.info("You can now claim as a receiver. Your slot will be auto-assigned.");
-    return { contract, gameId, senderSlot: slot };
-  }
-}
-
-/**
- * Internal claim function that reuses existing contract connection.
- * Uses cyclic permutation to auto-assign receiver slot.
- */
-async function claimAsReceiverInternal(
-  wallet: TestWallet,
-  callerAddress: AztecAddress,
-  secretKey: Fr,
-  contract: SecretSantaContract,
-  gameId: number,
-  senderSlot: number
-): Promise<{ contract: SecretSantaContract; gameId: number; senderSlot: number } | void> {
-  // Get game state for participant count
-  const state = await getGameState(contract, BigInt(gameId), callerAddress);
-
-  // Calculate receiver slot using cyclic permutation with prime offset
-  // Formula: ((slot - 1 + 137) % count) + 1
-  const participantCount = state.participantCount;
-  const targetSlot = ((senderSlot - 1 + 137) % participantCount) + 1;
-
-  display.info(`Your sender slot: ${senderSlot}`);
-  display.info(`Assigned receiver slot (cyclic): ${targetSlot}`);
-
-  // Get sender's encryption key for the slot
-  const senderKey = await contract.methods
-    .get_slot_encryption_key(BigInt(gameId), BigInt(targetSlot))
-    .simulate({ from: callerAddress });
-
-  display.info(`Slot ${targetSlot} sender's public key: ${display.formatAddress(senderKey.x.toString())}`);
-
-  // Get delivery address from user
-  const deliveryAddress = await prompts.promptDeliveryAddress();
-
-  display.step("Encrypting delivery address with sender's public key...");
-
-  let encryptedDeliveryData: [Fr, Fr, Fr, Fr, Fr, Fr, Fr, Fr];
-  try {
-    encryptedDeliveryData = await encryptDeliveryData(deliveryAddress, senderKey);
-    display.success("Delivery address encrypted!");
-  } catch (err: any) {
-    display.error(`Encryption failed: ${err.message}`);
-    return;
-  }
-
-  display.step(`Claiming as receiver (slot ${targetSlot} auto-assigned)...`);
-
-  const paymentMethod = await getSponsoredPaymentMethod(wallet);
-  const txStart = Date.now();
-  await contract
-    .withWallet(wallet)
-    .methods.claim_receiver(
-      BigInt(gameId),
-      participantCount,
-      encryptedDeliveryData
-    )
-    .send({ from: callerAddress, fee: { paymentMethod } })
-    .wait();
-  const txDuration = Date.now() - txStart;
-
-  display.success(`Claimed as receiver! You will receive from slot ${targetSlot}.`);
-  display.txTiming("Transaction time", txDuration);
-  display.info("Your encrypted delivery address has been stored.");
-  display.info(`The sender of slot ${targetSlot} will send you a gift!`);
-
-  // Wait for phase change
-  const newPhase = await waitForPhaseChange(contract, BigInt(gameId), PHASE.MATCH, callerAddress);
-
-  if (newPhase === PHASE.REVEAL) {
-    display.info("Game complete! You can now view your recipient's delivery address.");
-    return { contract, gameId, senderSlot };
-  }
+  program
+    .command("journal")
+    .description("Show your recorded slots and transactions for each game")
+    .option("--game <id>", "Only show this game (ID or alias)")
+    .option("--all", "Show every network and contract")
+    .action((options) => {
+      try {
+        showJournal(options);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
 }
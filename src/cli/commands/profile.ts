@@ -0,0 +1,106 @@
+/**
+ * Profile Commands - Manage named configuration profiles
+ *
+ * Commands:
+ * - profile list: Show all profiles
+ * - profile use: Switch the default profile
+ * - profile create: Create a new profile
+ * - profile delete: Remove a profile
+ */
+
+import { Command } from "commander";
+import {
+  listProfiles,
+  useProfile,
+  createProfile,
+  deleteProfile,
+} from "../services/config.js";
+import { setExitCode } from "../utils/command.js";
+import * as display from "../utils/display.js";
+
+/**
+ * List all profiles.
+ */
+export function showProfiles(): void {
+  display.header("Profiles");
+
+  for (const { name, config, active } of listProfiles()) {
+    const marker = active ? display.chalk.green("●") : display.chalk.gray("○");
+    console.log(`  ${marker} ${display.chalk.bold(name)}`);
+    display.keyValue("  Network", `${config.network} (${config.nodeUrl})`);
+    display.keyValue("  Contract", config.contractAddress || "(not set)");
+    display.keyValue("  Current Game", config.currentGameId?.toString() || "(not set)");
+  }
+  display.divider();
+  display.info("Switch with 'yarn cli profile use <name>' or pass --profile <name>");
+}
+
+/**
+ * Register profile commands with commander.
+ */
+export function registerProfileCommands(program: Command): void {
+  const profile = program
+    .command("profile")
+    .description("Manage named configuration profiles");
+
+  profile
+    .command("list")
+    .alias("ls")
+    .description("List all profiles")
+    .action(() => {
+      try {
+        showProfiles();
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  profile
+    .command("use <name>")
+    .description("Make a profile the default for future commands")
+    .action((name: string) => {
+      try {
+        useProfile(name);
+        display.success(`Now using profile "${name}"`);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  profile
+    .command("create <name>")
+    .description("Create a new profile")
+    .option("--from <profile>", "Copy settings from an existing profile")
+    .option("--use", "Switch to the new profile after creating it")
+    .action((name: string, options: { from?: string; use?: boolean }) => {
+      try {
+        createProfile(name, options.from);
+        display.success(`Profile "${name}" created`);
+        if (options.use) {
+          useProfile(name);
+          display.success(`Now using profile "${name}"`);
+        } else {
+          display.info(`Run 'yarn cli --profile ${name} setup' to configure it`);
+        }
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  profile
+    .command("delete <name>")
+    .alias("rm")
+    .description("Delete a profile")
+    .action((name: string) => {
+      try {
+        deleteProfile(name);
+        display.success(`Profile "${name}" deleted`);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+}
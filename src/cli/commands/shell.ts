@@ -0,0 +1,263 @@
+/**
+ * Shell Command - Interactive session that connects once
+ *
+ * Reads commands line by line and runs them with the same handlers as the
+ * CLI, keeping the node connection, wallet and account between commands.
+ * Flags on a line apply to that command only, though network flags are also
+ * remembered in config as they are outside the shell. Tab completes
+ * commands, options, game aliases and slot numbers.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { Command, type Help } from "commander";
+import * as readline from "readline";
+import { getTrackedGames, type GameRef } from "../services/config.js";
+import { setExitCode } from "../utils/command.js";
+import * as display from "../utils/display.js";
+
+// Options whose value is a game, or a slot of the current game
+const GAME_OPTIONS = new Set(["--game"]);
+const SLOT_OPTIONS = new Set(["--slot", "--sender-slot"]);
+
+// Words the shell handles itself
+const BUILTINS = ["exit", "quit", "clear"];
+
+// The command each write belongs to, so one cancelled with Ctrl+C goes quiet
+const runningCommand = new AsyncLocalStorage<{ cancelled: boolean }>();
+
+export interface ShellContext {
+  // Connect to the node (and account, if one was chosen) before the first command
+  connect(): Promise<void>;
+  // Run one line's arguments as a CLI command; errors are reported, not thrown
+  run(argv: string[]): Promise<void>;
+  // Number of slots in a game, for completion; undefined if unknown
+  getSlotCount(game?: GameRef): Promise<number | undefined>;
+}
+
+/**
+ * Split a line into arguments, honouring single and double quotes.
+ */
+export function splitArgs(line: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  let inArg = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === "\\" && quote === '"' && i + 1 < line.length) {
+        current += line[++i];
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inArg = true;
+    } else if (/\s/.test(char)) {
+      if (inArg) args.push(current);
+      current = "";
+      inArg = false;
+    } else {
+      current += char;
+      inArg = true;
+    }
+  }
+  if (quote) {
+    throw new Error(`Unclosed ${quote} in command`);
+  }
+  if (inArg) args.push(current);
+  return args;
+}
+
+/**
+ * Build the tab completer for a program.
+ */
+function createCompleter(root: Command, context: ShellContext): readline.AsyncCompleter {
+  const help: Help = root.createHelp();
+  const longFlags = (command: Command) =>
+    help.visibleOptions(command).map((option) => option.long).filter((flag): flag is string => !!flag);
+
+  const candidatesFor = async (line: string): Promise<[string[], string]> => {
+    let tokens: string[];
+    try {
+      tokens = splitArgs(line);
+    } catch {
+      // Inside an open quote: nothing sensible to offer
+      return [[], line];
+    }
+    const current = line === "" || /\s$/.test(line) ? "" : tokens.pop() ?? "";
+    const previous = tokens[tokens.length - 1];
+
+    // Follow the command path typed so far
+    let command = root;
+    for (const token of tokens) {
+      const sub = help.visibleCommands(command).find((c) => c.name() === token || c.aliases().includes(token));
+      if (sub) command = sub;
+    }
+
+    let candidates: string[];
+    if (previous && GAME_OPTIONS.has(previous)) {
+      candidates = getTrackedGames().flatMap((game) => (game.alias ? [game.alias, String(game.id)] : [String(game.id)]));
+    } else if (previous && SLOT_OPTIONS.has(previous)) {
+      const gameIndex = tokens.findIndex((token) => GAME_OPTIONS.has(token));
+      const game = gameIndex >= 0 ? tokens[gameIndex + 1] : undefined;
+      const count = await context.getSlotCount(game).catch(() => undefined);
+      candidates = count ? Array.from({ length: count }, (_, i) => String(i + 1)) : [];
+    } else if (current.startsWith("-")) {
+      candidates = [...longFlags(command), ...(command === root ? [] : longFlags(root))];
+    } else {
+      candidates = help.visibleCommands(command).map((c) => c.name());
+      if (command === root) candidates.push(...BUILTINS);
+    }
+
+    const matches = [...new Set(candidates)].filter((candidate) => candidate.startsWith(current));
+    return [matches.map((match) => `${match} `), current];
+  };
+
+  return (line, callback) => {
+    candidatesFor(line).then(
+      (result) => callback(null, result),
+      (err) => callback(err, [[], line])
+    );
+  };
+}
+
+/**
+ * Read lines from a terminal. A fresh interface is used for each line so
+ * commands (prompts, dashboards) get the terminal to themselves meanwhile.
+ */
+async function* terminalLines(prompt: string, completer: readline.AsyncCompleter): AsyncGenerator<string> {
+  // Shared with each interface, so up-arrow history survives between lines
+  const history: string[] = [];
+
+  for (;;) {
+    const line = await new Promise<string | null>((resolve) => {
+      const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+        completer,
+        history,
+        historySize: 500,
+        removeHistoryDuplicates: true,
+      });
+      let answered = false;
+      // Ctrl+C clears the line, Ctrl+D leaves the shell
+      rl.on("SIGINT", () => {
+        answered = true;
+        process.stdout.write("\n");
+        rl.close();
+        resolve("");
+      });
+      rl.on("close", () => {
+        if (!answered) resolve(null);
+      });
+      rl.question(prompt, (answer) => {
+        answered = true;
+        rl.close();
+        resolve(answer);
+      });
+    });
+    if (line === null) return;
+    yield line;
+  }
+}
+
+/**
+ * Drop output from commands that were cancelled but are still finishing.
+ */
+function silenceCancelledCommands(): void {
+  for (const name of ["stdout", "stderr"] as const) {
+    const stream = process[name];
+    const write = stream.write.bind(stream);
+    stream.write = ((chunk: string | Uint8Array, ...rest: any[]) => {
+      if (runningCommand.getStore()?.cancelled) return true;
+      return write(chunk, ...rest);
+    }) as typeof stream.write;
+  }
+}
+
+/**
+ * Run a command until it finishes or Ctrl+C cancels it. A node call can't be
+ * stopped midway, so a cancelled command finishes in the background, unheard.
+ */
+async function runCancellable(context: ShellContext, argv: string[]): Promise<void> {
+  const command = { cancelled: false };
+  let onInterrupt = () => {};
+  const interrupted = new Promise<void>((resolve) => {
+    onInterrupt = () => {
+      // Commands that handle Ctrl+C themselves (watch, dashboards) listen after us
+      if (process.listeners("SIGINT").at(-1) !== onInterrupt) return;
+      command.cancelled = true;
+      process.stdout.write("\n");
+      display.warn("Cancelled. A transaction it already sent may still be mined.");
+      resolve();
+    };
+  });
+  process.on("SIGINT", onInterrupt);
+  try {
+    await Promise.race([runningCommand.run(command, () => context.run(argv)), interrupted]);
+  } finally {
+    process.off("SIGINT", onInterrupt);
+  }
+}
+
+/**
+ * Run the shell until `exit`, Ctrl+D or the end of piped input.
+ */
+export async function runShell(root: Command, context: ShellContext): Promise<void> {
+  display.header("ZK Secret Santa Shell");
+  await context.connect();
+  display.info("Type a command (e.g. 'status', 'admin advance'), 'help' for the list, or 'exit' to leave.");
+  display.info("Tab completes commands, options, game aliases and slot numbers.");
+
+  silenceCancelledCommands();
+  const prompt = display.chalk.cyan("zk-santa> ");
+  const completer = createCompleter(root, context);
+  const lines = process.stdin.isTTY
+    ? terminalLines(prompt, completer)
+    : readline.createInterface({ input: process.stdin, terminal: false });
+
+  for await (const line of lines) {
+    let argv: string[];
+    try {
+      argv = splitArgs(line);
+    } catch (err: any) {
+      display.error(err.message);
+      continue;
+    }
+    if (argv.length === 0) continue;
+
+    const [name] = argv;
+    if (name === "exit" || name === "quit") break;
+    if (name === "clear") {
+      process.stdout.write("\x1b[2J\x1b[H");
+      continue;
+    }
+    if (name === "shell") {
+      display.info("Already in the shell");
+      continue;
+    }
+    await runCancellable(context, argv);
+  }
+  display.info("Goodbye!");
+}
+
+/**
+ * Register shell command with commander.
+ */
+export function registerShellCommand(program: Command, context: ShellContext): void {
+  program
+    .command("shell")
+    .description("Start an interactive session that connects once and runs commands")
+    .action(async () => {
+      try {
+        await runShell(program, context);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+}
@@ -0,0 +1,129 @@
+/**
+ * Transaction Commands - Receipts of the transactions this profile sent
+ *
+ * Commands:
+ * - tx list: Show sent transactions, newest first
+ * - tx show <hash>: Show one transaction's receipt, optionally re-checked on the node
+ */
+
+import { Command } from "commander";
+import type { AztecNode } from "@aztec/aztec.js/node";
+import { TxHash } from "@aztec/aztec.js/tx";
+import { getDeploymentKey, getEffectiveGameId, loadConfig, type GameRef } from "../services/config.js";
+import { findTx, getHistoryPath, listTxs, type TxRecord } from "../services/history.js";
+import { setExitCode } from "../utils/command.js";
+import * as display from "../utils/display.js";
+
+function formatStatus(status: string): string {
+  if (status === "success") return display.chalk.green(status);
+  if (status === "failed" || status.includes("reverted") || status === "dropped") return display.chalk.red(status);
+  return display.chalk.yellow(status);
+}
+
+/**
+ * List the profile's sent transactions.
+ */
+export function showTxList(options: { game?: GameRef; all?: boolean }): void {
+  const network = options.all ? undefined : getDeploymentKey(loadConfig());
+  const gameId = options.game !== undefined ? getEffectiveGameId(options.game) : undefined;
+  const txs = listTxs({ network, gameId });
+
+  display.header("Transactions");
+  if (network) display.keyValue("Network", network);
+  if (gameId !== undefined) display.keyValue("Game", `#${gameId}`);
+
+  if (txs.length === 0) {
+    display.info("No transactions recorded yet");
+  }
+  for (const tx of txs) {
+    const game = tx.gameId !== undefined ? ` game #${tx.gameId}` : "";
+    console.log(
+      `  ${display.chalk.dim(tx.sentAt.replace("T", " ").slice(0, 19))}  ${tx.action}${game}  ` +
+        `${formatStatus(tx.status)}  ${display.chalk.dim(display.formatAddress(tx.txHash))}`
+    );
+  }
+  display.divider();
+  display.info(`History: ${getHistoryPath()}`);
+  if (txs.length > 0) {
+    display.info("Use 'tx show <hash>' for the full receipt (a unique prefix of the hash is enough).");
+  }
+}
+
+/**
+ * Show one transaction's receipt. With check, also asks the node for its current status.
+ */
+export async function showTx(
+  hash: string,
+  initNode: () => Promise<AztecNode>,
+  options: { check?: boolean }
+): Promise<TxRecord> {
+  const tx = findTx(hash);
+  if (!tx) {
+    throw new Error(`No transaction ${hash} in this profile's history (${getHistoryPath()})`);
+  }
+
+  display.header("Transaction");
+  display.keyValue("Hash", tx.txHash);
+  display.keyValue("Action", tx.action);
+  display.keyValue("Description", tx.description);
+  display.keyValue("Status", formatStatus(tx.status));
+  if (tx.error) display.keyValue("Error", tx.error);
+  if (tx.blockNumber !== undefined) display.keyValue("Block", tx.blockNumber);
+  if (tx.blockHash) display.keyValue("Block hash", tx.blockHash);
+  if (tx.fee !== undefined) display.keyValue("Fee", display.formatFeeJuice(BigInt(tx.fee)));
+  display.keyValue("Network", tx.network);
+  if (tx.contractAddress) display.keyValue("Contract", tx.contractAddress);
+  if (tx.gameId !== undefined) display.keyValue("Game", `#${tx.gameId}`);
+  display.keyValue("Account", tx.account);
+  display.keyValue("Sent", tx.sentAt);
+  if (tx.minedAt) display.keyValue("Mined", tx.minedAt);
+
+  if (options.check) {
+    const node = await initNode();
+    const receipt = await node.getTxReceipt(TxHash.fromString(tx.txHash));
+    const block = receipt.blockNumber !== undefined ? ` in block ${receipt.blockNumber}` : "";
+    display.keyValue("On node", `${formatStatus(receipt.status)}${block}`);
+  }
+  display.divider();
+  if (!options.check) {
+    display.info("Add --check to confirm the status with the node.");
+  }
+  return tx;
+}
+
+/**
+ * Register transaction commands with commander.
+ */
+export function registerTxCommands(program: Command, initNode: () => Promise<AztecNode>): void {
+  const tx = program
+    .command("tx")
+    .description("Show receipts of the transactions sent from this profile");
+
+  tx
+    .command("list")
+    .alias("ls")
+    .description("List sent transactions, newest first")
+    .option("--game <id>", "Only show transactions for this game ID or alias")
+    .option("--all", "Include transactions on other networks")
+    .action((options) => {
+      try {
+        showTxList(options);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  tx
+    .command("show <hash>")
+    .description("Show a transaction's receipt (hash or unique prefix)")
+    .option("--check", "Query the node for the transaction's current status")
+    .action(async (hash: string, options) => {
+      try {
+        await showTx(hash, initNode, options);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+}
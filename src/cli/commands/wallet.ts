@@ -0,0 +1,415 @@
+/**
+ * Wallet Commands - Manage the player's accounts
+ *
+ * Commands:
+ * - wallet create: Generate a new account in the encrypted keystore
+ * - wallet import: Add an existing account (passphrase or secret key) to the keystore
+ * - wallet list: Show keystore wallets
+ * - wallet use: Choose the keystore wallet the profile signs with
+ * - wallet unlock / lock: Keep a wallet unlocked in the agent for this session
+ * - wallet migrate: Move to the memory-hard v2 passphrase derivation
+ */
+
+import { Command } from "commander";
+import { spawn } from "child_process";
+import { Fr } from "@aztec/aztec.js/fields";
+import type { AztecNode } from "@aztec/aztec.js/node";
+import { TestWallet } from "@aztec/test-wallet/server";
+import {
+  ADMIN_BACKUP_USER,
+  createAccountFromPassphrase,
+  deriveAdminSecretKey,
+  deriveSecretKey,
+  generateBackupPhrase,
+  getAccountAddress,
+  getOrDeployWallet,
+  LEGACY_KEY_DERIVATION,
+} from "../services/wallet.js";
+import { loadConfig, updateConfig, type KeyDerivation } from "../services/config.js";
+import {
+  addKeystoreWallet,
+  getKeystoreWallet,
+  listKeystoreWallets,
+  unlockKeystoreWallet,
+  type WalletSource,
+} from "../services/keystore.js";
+import {
+  addAgentKey,
+  getAgentKey,
+  isAgentRunning,
+  listAgentKeys,
+  lockAgent,
+  runAgent,
+  waitForAgent,
+} from "../services/agent.js";
+import { listJournalEntries } from "../services/journal.js";
+import { recordAccountDeployment } from "../services/history.js";
+import { getFeeStrategy } from "../utils/fees.js";
+import { setExitCode } from "../utils/command.js";
+import * as display from "../utils/display.js";
+import * as prompts from "../utils/prompts.js";
+
+// Default idle time before the agent forgets an unlocked wallet
+const DEFAULT_UNLOCK_MINUTES = 60;
+
+/**
+ * Get the secret key of a keystore wallet, from the agent if it's
+ * unlocked there, otherwise by prompting for the wallet password.
+ */
+export async function loadWalletSecretKey(name: string): Promise<Fr> {
+  if (!getKeystoreWallet(name)) {
+    throw new Error(`Wallet "${name}" not found. Run 'yarn cli wallet list' to see your wallets.`);
+  }
+
+  const unlocked = await getAgentKey(name).catch(() => undefined);
+  if (unlocked) {
+    return Fr.fromBuffer(unlocked);
+  }
+
+  const password = await prompts.promptWalletPassword(name);
+  return Fr.fromBuffer(await unlockKeystoreWallet(name, password));
+}
+
+/**
+ * Encrypt a secret key into the keystore and optionally make it active.
+ */
+async function saveToKeystore(name: string, secretKey: Fr, source: WalletSource, use?: boolean): Promise<void> {
+  const address = (await getAccountAddress(secretKey)).toString();
+  display.keyValue("Address", address);
+
+  const password = await prompts.promptNewWalletPassword();
+  display.step("Encrypting wallet...");
+  await addKeystoreWallet(name, secretKey.toBuffer(), address, source, password);
+  display.success(`Saved wallet "${name}" to the keystore`);
+
+  // The first wallet becomes the active one
+  if (use || !loadConfig().wallet) {
+    updateConfig({ wallet: name });
+    display.success(`Profile now signs with wallet "${name}"`);
+  }
+  display.info("The account is deployed the first time you use it.");
+}
+
+/**
+ * Generate a new random account and store it in the keystore.
+ */
+export async function createWallet(name: string, options: { use?: boolean }): Promise<void> {
+  display.header("Create Wallet");
+  await saveToKeystore(name, Fr.random(), "random", options.use);
+  display.warn("The keystore holds the only copy of this key. Back up your config directory.");
+}
+
+/**
+ * Import an existing account into the keystore, from a passphrase or a raw secret key.
+ */
+export async function importWallet(
+  name: string,
+  getPassphrase: () => Promise<string>,
+  getKeyDerivation: () => KeyDerivation,
+  options: { secretKey?: boolean; user?: string; use?: boolean }
+): Promise<void> {
+  display.header("Import Wallet");
+
+  if (options.secretKey) {
+    const hex = (await prompts.promptSecretKey()).trim();
+    await saveToKeystore(name, Fr.fromHexString(hex.startsWith("0x") ? hex : `0x${hex}`), "secret-key", options.use);
+    return;
+  }
+
+  const derivation: KeyDerivation = options.user ? { version: 2, user: options.user } : getKeyDerivation();
+  const passphrase = await getPassphrase();
+  display.step("Deriving account from passphrase...");
+  const secretKey = await deriveSecretKey(passphrase, derivation);
+  await saveToKeystore(name, secretKey, derivation.version === 2 ? "passphrase-v2" : "passphrase-v1", options.use);
+}
+
+/**
+ * Get the admin account for `setup --full-deploy` from the keystore, creating
+ * it from a random backup phrase if the wallet doesn't exist yet. The phrase
+ * is printed once and never stored; the profile's own wallet is unchanged.
+ */
+export async function provisionAdminWallet(name: string): Promise<Fr> {
+  if (getKeystoreWallet(name)) {
+    display.info(`Using the existing admin wallet "${name}"`);
+    return loadWalletSecretKey(name);
+  }
+
+  display.step(`Creating admin wallet "${name}" from a random backup phrase...`);
+  const phrase = generateBackupPhrase();
+  const secretKey = await deriveAdminSecretKey(phrase);
+  const address = (await getAccountAddress(secretKey)).toString();
+  display.keyValue("Address", address);
+
+  const password = await prompts.promptNewWalletPassword();
+  display.step("Encrypting wallet...");
+  await addKeystoreWallet(name, secretKey.toBuffer(), address, "passphrase-v2", password);
+  display.success(`Saved wallet "${name}" to the keystore`);
+
+  display.header("Admin Backup Phrase");
+  console.log(`  ${display.chalk.bold(phrase)}`);
+  console.log("");
+  display.warn("This is shown once and is not saved anywhere. Write it down and keep it private:");
+  display.warn("anyone with it can run this game as the admin.");
+  display.info(`To restore the admin on another machine: yarn cli wallet import ${name} --user ${ADMIN_BACKUP_USER}`);
+  display.info("and enter the backup phrase as the passphrase.");
+  display.divider();
+  return secretKey;
+}
+
+/**
+ * List keystore wallets, marking the active one and those unlocked in the agent.
+ */
+export async function listWallets(): Promise<void> {
+  const wallets = listKeystoreWallets();
+  const active = loadConfig().wallet;
+  const unlocked = new Set((await listAgentKeys().catch(() => [])).map((entry) => entry.name));
+
+  display.header("Wallets");
+  if (wallets.length === 0) {
+    display.info("No wallets yet. Create one with 'yarn cli wallet create <name>'");
+    return;
+  }
+
+  for (const wallet of wallets) {
+    const marker = wallet.name === active ? display.chalk.green("●") : display.chalk.gray("○");
+    const state = unlocked.has(wallet.name) ? display.chalk.yellow(" (unlocked)") : "";
+    console.log(`  ${marker} ${display.chalk.bold(wallet.name)}${state}  ${wallet.address}  ${display.chalk.dim(wallet.source)}`);
+  }
+  display.divider();
+  if (!active) {
+    display.info("No wallet selected; commands derive the account from your passphrase.");
+  }
+}
+
+/**
+ * Unlock a keystore wallet into the agent, starting the agent if needed.
+ */
+export async function unlockWallet(name: string | undefined, options: { timeout?: string }): Promise<void> {
+  const walletName = name || loadConfig().wallet;
+  if (!walletName) {
+    throw new Error("No wallet selected. Pass a name or run 'yarn cli wallet use <name>' first.");
+  }
+  if (!getKeystoreWallet(walletName)) {
+    throw new Error(`Wallet "${walletName}" not found. Run 'yarn cli wallet list' to see your wallets.`);
+  }
+  const minutes = options.timeout ? Number(options.timeout) : DEFAULT_UNLOCK_MINUTES;
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    throw new Error(`Invalid timeout: ${options.timeout}. Use a number of minutes.`);
+  }
+
+  const password = await prompts.promptWalletPassword(walletName);
+  const secretKey = await unlockKeystoreWallet(walletName, password);
+
+  if (!await isAgentRunning()) {
+    display.step("Starting wallet agent...");
+    // Re-run this CLI (with the same loader flags) as a detached agent
+    const agent = spawn(process.execPath, [...process.execArgv, process.argv[1], "wallet", "agent"], {
+      detached: true,
+      stdio: "ignore",
+    });
+    agent.unref();
+    await waitForAgent();
+  }
+
+  await addAgentKey(walletName, secretKey, minutes * 60_000);
+  display.success(`Wallet "${walletName}" unlocked for ${minutes} idle minute(s)`);
+  display.info("Run 'yarn cli wallet lock' to lock it sooner.");
+}
+
+/**
+ * Migrate the active profile's account to the v2 key derivation.
+ * The new derivation gives a new account, which is deployed here; games
+ * joined with the old account must be finished with --legacy-kdf.
+ */
+export async function migrateWallet(
+  initTestWallet: () => Promise<{ wallet: TestWallet; node: AztecNode }>,
+  getPassphrase: () => Promise<string>,
+  options: { user?: string; yes?: boolean }
+): Promise<void> {
+  const current = loadConfig().keyDerivation ?? LEGACY_KEY_DERIVATION;
+  if (current.version === 2 && !options.user) {
+    display.success(`Already using key derivation v2 (username "${current.user}")`);
+    return;
+  }
+
+  display.header("Migrate Account Key Derivation");
+  display.info("v2 derives your key with scrypt, salted with a username of your choice.");
+  display.info("You'll need the same username and passphrase on every device, including the web player.");
+
+  const user = options.user || await prompts.promptUsername();
+  const target: KeyDerivation = { version: 2, user };
+  const passphrase = await getPassphrase();
+
+  const { wallet } = await initTestWallet();
+
+  display.step("Deriving old and new accounts...");
+  const { account: oldAccount } = await createAccountFromPassphrase(wallet, passphrase, current);
+  const { account: newAccount } = await createAccountFromPassphrase(wallet, passphrase, target);
+  const oldAddress = oldAccount.address.toString();
+  const newAddress = newAccount.address.toString();
+
+  display.keyValue(`Current (v${current.version})`, oldAddress);
+  display.keyValue("New (v2)", newAddress);
+  display.divider();
+
+  if (oldAddress === newAddress) {
+    display.info("The account doesn't change; saving the setting only.");
+  } else {
+    const games = listJournalEntries({ account: oldAddress.toLowerCase() });
+    display.warn("Your address changes. Games you joined with the old account stay with it.");
+    if (games.length > 0) {
+      display.warn(`You have ${games.length} game(s) in your journal under the old account.`);
+    }
+    display.info("Finish those games by adding --legacy-kdf to your commands.");
+
+    if (!options.yes && !await prompts.promptConfirm("Deploy the new account and switch to it?")) {
+      return;
+    }
+
+    display.step("Deploying new account...");
+    const sentAt = new Date().toISOString();
+    const { isNewDeployment, deployReceipt } = await getOrDeployWallet(wallet, passphrase, getFeeStrategy(), true, target);
+    if (deployReceipt) {
+      recordAccountDeployment(deployReceipt, newAddress, sentAt);
+    }
+    display.walletInfo(newAddress, isNewDeployment);
+  }
+
+  updateConfig({ keyDerivation: target });
+  display.success(`Profile now uses key derivation v2 as "${user}"`);
+}
+
+/**
+ * Register wallet commands with commander.
+ */
+export function registerWalletCommands(
+  program: Command,
+  initTestWallet: () => Promise<{ wallet: TestWallet; node: AztecNode }>,
+  getPassphrase: () => Promise<string>,
+  getKeyDerivation: () => KeyDerivation
+): void {
+  const wallet = program
+    .command("wallet")
+    .description("Manage your accounts");
+
+  wallet
+    .command("create <name>")
+    .description("Generate a new account in the encrypted keystore")
+    .option("--use", "Also make it the profile's wallet")
+    .action(async (name: string, options) => {
+      try {
+        await createWallet(name, options);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  wallet
+    .command("import <name>")
+    .description("Add an existing account to the keystore (from your passphrase by default)")
+    .option("--secret-key", "Import a raw secret key instead (prompted, hidden)")
+    .option("--user <name>", "Derive from the passphrase with v2 and this username")
+    .option("--use", "Also make it the profile's wallet")
+    .action(async (name: string, options) => {
+      try {
+        await importWallet(name, getPassphrase, getKeyDerivation, options);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  wallet
+    .command("list")
+    .alias("ls")
+    .description("Show keystore wallets")
+    .action(async () => {
+      try {
+        await listWallets();
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  wallet
+    .command("use [name]")
+    .description("Sign with a keystore wallet in this profile")
+    .option("--clear", "Go back to deriving the account from the passphrase")
+    .action((name: string | undefined, options: { clear?: boolean }) => {
+      try {
+        if (options.clear) {
+          updateConfig({ wallet: undefined });
+          display.success("Profile now derives the account from your passphrase");
+          return;
+        }
+        if (!name) {
+          throw new Error("Pass a wallet name, or --clear to use your passphrase.");
+        }
+        if (!getKeystoreWallet(name)) {
+          throw new Error(`Wallet "${name}" not found. Run 'yarn cli wallet list' to see your wallets.`);
+        }
+        updateConfig({ wallet: name });
+        display.success(`Profile now signs with wallet "${name}"`);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  wallet
+    .command("unlock [name]")
+    .description("Unlock a wallet once for this session (defaults to the profile's wallet)")
+    .option("--timeout <minutes>", `Idle minutes before it locks again (default ${DEFAULT_UNLOCK_MINUTES})`)
+    .action(async (name: string | undefined, options) => {
+      try {
+        await unlockWallet(name, options);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  wallet
+    .command("lock")
+    .description("Forget all unlocked wallets and stop the agent")
+    .action(async () => {
+      try {
+        if (await lockAgent()) {
+          display.success("Wallets locked");
+        } else {
+          display.info("No wallets are unlocked");
+        }
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  // Started by `wallet unlock`; not meant to be run by hand
+  wallet
+    .command("agent", { hidden: true })
+    .action(async () => {
+      try {
+        await runAgent();
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  wallet
+    .command("migrate")
+    .description("Move your account to the memory-hard v2 passphrase derivation")
+    .option("--user <name>", "Username used as the per-user salt")
+    .option("-y, --yes", "Skip the confirmation prompt")
+    .action(async (options) => {
+      try {
+        await migrateWallet(initTestWallet, getPassphrase, options);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+}
@@ -5,19 +5,18 @@
  */
 
 import { Command } from "commander";
-import { AztecAddress } from "@aztec/aztec.js/addresses";
 import type { AztecNode } from "@aztec/aztec.js/node";
-import { TestWallet } from "@aztec/test-wallet/server";
 
-import { connectToContract, getGameInfo, getGameState, PHASE, PHASE_NAMES } from "../services/contract.js";
+import { PHASE, PHASE_NAMES, type GameReader } from "../services/contract.js";
 import { getSlotClaimedEvents, getReceiverClaimedEvents } from "../services/events.js";
-import { getContractAddress, getEffectiveGameId } from "../services/config.js";
+import { getEffectiveGameId, type GameRef } from "../services/config.js";
+import { setExitCode } from "../utils/command.js";
 import * as display from "../utils/display.js";
 
 const DEFAULT_POLL_INTERVAL_MS = 5000; // 5 seconds
 
 interface WatchOptions {
-  game?: number;
+  game?: GameRef;
   interval?: number;
   live?: boolean;
 }
@@ -26,20 +25,10 @@ interface WatchOptions {
  * Watch game events in real-time.
  */
 export async function watchGame(
-  wallet: TestWallet,
-  callerAddress: AztecAddress,
+  reader: GameReader,
   node: AztecNode,
   options: WatchOptions
 ): Promise<void> {
-  const contractAddressStr = getContractAddress();
-  if (!contractAddressStr) {
-    display.error("No contract configured. Run 'yarn cli setup' first.");
-    return;
-  }
-
-  const contractAddress = AztecAddress.fromString(contractAddressStr);
-  const contract = await connectToContract(wallet, contractAddress, node);
-
   const gameId = getEffectiveGameId(options.game);
 
   if (!gameId) {
@@ -52,11 +41,11 @@ export async function watchGame(
 
   if (isLive) {
     // Live mode fetches state itself via getGameState
-    await watchGameLive(contract, callerAddress, gameId, pollInterval);
+    await watchGameLive(reader, gameId, pollInterval);
   } else {
     // Event mode needs initial phase for filtering
-    const { phase } = await getGameInfo(contract, BigInt(gameId), callerAddress);
-    await watchGameEvents(contract, callerAddress, node, gameId, phase, pollInterval);
+    const phase = await reader.getGamePhase(BigInt(gameId));
+    await watchGameEvents(reader, node, gameId, phase, pollInterval);
   }
 }
 
@@ -64,8 +53,7 @@ export async function watchGame(
  * Live dashboard mode - updates slot grid in place.
  */
 async function watchGameLive(
-  contract: any,
-  callerAddress: AztecAddress,
+  reader: GameReader,
   gameId: number,
   pollInterval: number
 ): Promise<void> {
@@ -76,7 +64,7 @@ async function watchGameLive(
   console.log("");
 
   // Initial fetch - single RPC call
-  let state = await getGameState(contract, BigInt(gameId), callerAddress);
+  let state = await reader.getGameState(BigInt(gameId));
 
   // Render initial state
   const lines = display.renderLiveDashboard(
@@ -88,7 +76,7 @@ async function watchGameLive(
   // Poll and update - single RPC call per poll
   const intervalId = setInterval(async () => {
     try {
-      state = await getGameState(contract, BigInt(gameId), callerAddress);
+      state = await reader.getGameState(BigInt(gameId));
 
       const newLines = display.renderLiveDashboard(
         gameId, state.phase, state.participantCount, state.maxParticipants,
@@ -100,27 +88,27 @@ async function watchGameLive(
     }
   }, pollInterval);
 
-  // Handle cleanup
-  const cleanup = () => {
-    clearInterval(intervalId);
-    display.showCursor();
-    console.log("");
-    display.info("Stopped watching.");
-    process.exit(0);
-  };
-
-  process.on("SIGINT", cleanup);
-  process.on("SIGTERM", cleanup);
-
-  await new Promise(() => {});
+  // Stop on Ctrl+C
+  await new Promise<void>((resolve) => {
+    const cleanup = () => {
+      clearInterval(intervalId);
+      process.off("SIGINT", cleanup);
+      process.off("SIGTERM", cleanup);
+      display.showCursor();
+      console.log("");
+      display.info("Stopped watching.");
+      resolve();
+    };
+    process.on("SIGINT", cleanup);
+    process.on("SIGTERM", cleanup);
+  });
 }
 
 /**
  * Event-based watch mode - shows events as they happen.
  */
 async function watchGameEvents(
-  contract: any,
-  callerAddress: AztecAddress,
+  reader: GameReader,
   node: AztecNode,
   gameId: number,
   initialPhase: number,
@@ -185,11 +173,11 @@ async function watchGameEvents(
 
         // Check for phase changes
         try {
-          const newInfo = await getGameInfo(contract, BigInt(gameId), callerAddress);
-          if (newInfo.phase !== currentPhase) {
+          const newPhase = await reader.getGamePhase(BigInt(gameId));
+          if (newPhase !== currentPhase) {
             display.divider();
-            display.eventNotification("PhaseChanged", `${PHASE_NAMES[currentPhase]} -> ${PHASE_NAMES[newInfo.phase]}`);
-            currentPhase = newInfo.phase;
+            display.eventNotification("PhaseChanged", `${PHASE_NAMES[currentPhase]} -> ${PHASE_NAMES[newPhase]}`);
+            currentPhase = newPhase;
             display.divider();
           }
         } catch (err) {
@@ -201,19 +189,19 @@ async function watchGameEvents(
     }
   }, pollInterval);
 
-  // Handle cleanup on Ctrl+C
-  const cleanup = () => {
-    clearInterval(intervalId);
-    display.divider();
-    display.info("Stopped watching.");
-    process.exit(0);
-  };
-
-  process.on("SIGINT", cleanup);
-  process.on("SIGTERM", cleanup);
-
-  // Keep the process alive
-  await new Promise(() => {}); // Never resolves
+  // Keep watching until Ctrl+C
+  await new Promise<void>((resolve) => {
+    const cleanup = () => {
+      clearInterval(intervalId);
+      process.off("SIGINT", cleanup);
+      process.off("SIGTERM", cleanup);
+      display.divider();
+      display.info("Stopped watching.");
+      resolve();
+    };
+    process.on("SIGINT", cleanup);
+    process.on("SIGTERM", cleanup);
+  });
 }
 
 /**
@@ -221,21 +209,21 @@ async function watchGameEvents(
  */
 export function registerWatchCommand(
   program: Command,
-  getWallet: () => Promise<{ wallet: TestWallet; accountAddress: AztecAddress; node: AztecNode }>
+  getGameReader: () => Promise<{ reader: GameReader; node: AztecNode }>
 ): void {
   program
     .command("watch")
     .description("Watch game events in real-time")
-    .option("--game <id>", "Game ID to watch", parseInt)
+    .option("--game <id>", "Game ID or alias to watch")
     .option("--interval <ms>", "Poll interval in milliseconds", parseInt)
     .option("--live", "Live updating slot grid display")
     .action(async (options) => {
       try {
-        const { wallet, accountAddress, node } = await getWallet();
-        await watchGame(wallet, accountAddress, node, options);
+        const { reader, node } = await getGameReader();
+        await watchGame(reader, node, options);
       } catch (err: any) {
-        display.error(err.message);
-        process.exit(1);
+        display.failure(err);
+        setExitCode(1);
       }
     });
 }
@@ -0,0 +1,83 @@
+/**
+ * Whoami Command - Show the session's account without deploying it
+ *
+ * Derives the address and game-scoped encryption key offline from the
+ * passphrase or keystore. With --check, asks the node whether the account
+ * is deployed (it never deploys).
+ */
+
+import { Command } from "commander";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import type { AztecNode } from "@aztec/aztec.js/node";
+import { TestWallet } from "@aztec/test-wallet/server";
+import { getAccountAddress, getEncryptionPublicKey, isAccountDeployed } from "../services/wallet.js";
+import { getDeploymentKey, getEffectiveGameId, resolveConfig, type GameRef } from "../services/config.js";
+import { getJournalEntry, getJournalKey } from "../services/journal.js";
+import { setExitCode } from "../utils/command.js";
+import * as display from "../utils/display.js";
+
+/**
+ * Show the account address, encryption key and journal slots for this profile.
+ */
+export async function whoami(
+  getAccountSecretKey: () => Promise<{ secretKey: Fr; source: string }>,
+  initTestWallet: (account?: AztecAddress) => Promise<{ wallet: TestWallet; node: AztecNode }>,
+  options: { game?: GameRef; check?: boolean }
+): Promise<void> {
+  const { profile, config } = resolveConfig();
+  const gameId = getEffectiveGameId(options.game);
+
+  const { secretKey, source } = await getAccountSecretKey();
+  const address = await getAccountAddress(secretKey);
+
+  display.header("Who Am I");
+  display.keyValue("Profile", profile);
+  display.keyValue("Network", getDeploymentKey(config));
+  display.keyValue("Account from", source);
+  display.keyValue("Address", address.toString());
+
+  if (config.contractAddress && gameId !== undefined) {
+    const encryptionKey = await getEncryptionPublicKey(secretKey, AztecAddress.fromString(config.contractAddress), gameId);
+    display.keyValue(`Encryption key (game #${gameId})`, `${encryptionKey.x.toString()}, ${encryptionKey.y.toString()}`);
+
+    const entry = getJournalEntry(getJournalKey(config.contractAddress, gameId, address));
+    if (entry?.senderSlot !== undefined) display.keyValue("Sender slot", entry.senderSlot);
+    if (entry?.receiverSlot !== undefined) display.keyValue("Receiver slot", entry.receiverSlot);
+  } else {
+    display.info("Encryption keys are per game; set a contract and game (or pass --game) to see yours.");
+  }
+
+  if (options.check) {
+    const { wallet } = await initTestWallet(address);
+    const deployed = await isAccountDeployed(wallet, secretKey);
+    display.keyValue("Deployed", deployed ? display.chalk.green("yes") : display.chalk.yellow("no (deployed on first use)"));
+  }
+  display.divider();
+  if (!options.check) {
+    display.info("Add --check to ask the node whether the account is deployed.");
+  }
+}
+
+/**
+ * Register whoami command with commander.
+ */
+export function registerWhoamiCommand(
+  program: Command,
+  getAccountSecretKey: () => Promise<{ secretKey: Fr; source: string }>,
+  initTestWallet: (account?: AztecAddress) => Promise<{ wallet: TestWallet; node: AztecNode }>
+): void {
+  program
+    .command("whoami")
+    .description("Show your account address and keys (offline; never deploys)")
+    .option("--game <id>", "Game ID or alias for the game-scoped encryption key")
+    .option("--check", "Query the node for deployment status")
+    .action(async (options) => {
+      try {
+        await whoami(getAccountSecretKey, initTestWallet, options);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+}
@@ -3,108 +3,335 @@
  * ZK Secret Santa CLI
  *
  * Interactive CLI for playing Secret Santa on Aztec.
- * Uses deterministic account generation from passphrases.
+ * Signs with an encrypted keystore wallet, or an account derived from a passphrase.
  */
 
-import { Command } from "commander";
+import { Command, CommanderError } from "commander";
 import { AztecAddress } from "@aztec/aztec.js/addresses";
 import { Fr } from "@aztec/aztec.js/fields";
 import { createAztecNodeClient, waitForNode, type AztecNode } from "@aztec/aztec.js/node";
 import { TestWallet } from "@aztec/test-wallet/server";
 
-import { getOrDeployWallet } from "./services/wallet.js";
-import { deployContract, connectToContract } from "./services/contract.js";
+import {
+  deriveSecretKey,
+  getAccountAddress,
+  getOrDeployAccount,
+  isWellKnownAdmin,
+  LEGACY_KEY_DERIVATION,
+  WELL_KNOWN_ADMIN_PASSPHRASE,
+} from "./services/wallet.js";
+import { getKeystoreWallet } from "./services/keystore.js";
+import { getPXEStoreDir, listPXEStores, openPXEStore, recordPXEStartup } from "./services/pxe.js";
+import { recordAccountDeployment, recordReceipt } from "./services/history.js";
+import { getRequestPolicy } from "./services/policy.js";
+import {
+  deployContract,
+  connectToContract,
+  contractGameReader,
+  publicGameReader,
+  checkContractClass,
+  getArtifactInfo,
+  getContractAdmin,
+  predictContractAddress,
+  type DeployOptions,
+  type GameReader,
+} from "./services/contract.js";
+import { ArtifactMismatchError, SecretSantaError } from "./services/errors.js";
 import {
   loadConfig,
   updateConfig,
+  saveDeployedContract,
   hasContractAddress,
   getNodeUrl,
+  getContractAddress,
   getNetwork,
   setNetwork,
+  setProfileOverride,
+  getDeploymentKey,
+  getProverEnabled,
+  setCustomNodeUrl,
+  setNetworkOverride,
+  setFeeModeOverride,
+  normalizeNodeUrl,
+  resolveConfig,
+  setRequestPolicyOverride,
+  getConfigOverrides,
+  restoreConfigOverrides,
+  getActiveProfileName,
+  getEffectiveGameId,
+  formatConfigSource,
+  NETWORK_URLS,
+  type ConfigOverrides,
+  type KeyDerivation,
 } from "./services/config.js";
 import { registerAdminCommands, viewStatus } from "./commands/admin.js";
 import { registerPlayerCommands } from "./commands/player.js";
 import { registerWatchCommand } from "./commands/watch.js";
+import { registerProfileCommands } from "./commands/profile.js";
+import { registerConfigCommands } from "./commands/config.js";
+import { registerGamesCommands } from "./commands/games.js";
+import { registerWalletCommands, loadWalletSecretKey, provisionAdminWallet } from "./commands/wallet.js";
+import { registerWhoamiCommand } from "./commands/whoami.js";
+import { registerCacheCommands } from "./commands/cache.js";
+import { registerTxCommands } from "./commands/tx.js";
+import { registerDaemonCommands } from "./commands/daemon.js";
+import { registerShellCommand, type ShellContext } from "./commands/shell.js";
+import { forwardToDaemon, getDaemonEnv, getDaemonStatus, type DaemonHandlers, type DaemonRunRequest } from "./services/daemon.js";
+import { isDryRun, setDryRun } from "./utils/client.js";
+import { forwardedCommand, setExitCode, type ForwardedCommand } from "./utils/command.js";
+import { getFeeStrategy } from "./utils/fees.js";
 import * as display from "./utils/display.js";
 import * as prompts from "./utils/prompts.js";
 
 // Version from package.json
 const VERSION = "1.0.0";
 
+// Keystore wallet that `setup --full-deploy` creates for the admin
+const DEFAULT_ADMIN_WALLET = "admin";
+
 // Global state for the CLI session
-let aztecNode: AztecNode | null = null;
-let testWallet: TestWallet | null = null;
-let cachedAccountAddress: AztecAddress | null = null;
-let cachedSecretKey: Fr | null = null;
+// The node for the configured URL (shell commands can switch networks)
+let aztecNode: { url: string; node: AztecNode } | null = null;
 let globalPassphrase: string | null = null;
+let globalWalletName: string | null = null;
+let useLegacyKdf = false;
+
+// Wallets opened by this process, by store directory
+const testWallets = new Map<string, { wallet: TestWallet; cold: boolean }>();
+// Accounts set up by this process, by store directory (network and address),
+// as the daemon and the shell serve several commands
+const readyAccounts = new Map<string, { wallet: TestWallet; accountAddress: AztecAddress; secretKey: Fr }>();
+// The account the current command resolved, so it is only asked for once,
+// and the choice it was resolved from (the shell's commands can pick others)
+let sessionAccount: { wallet: TestWallet; accountAddress: AztecAddress; secretKey: Fr } | null = null;
+let sessionAccountChoice: string | null = null;
+
+// Set while a command signs with an account it created itself (setup --full-deploy)
+let commandAccount: { secretKey: Fr; source: string } | null = null;
+
+// Set in the daemon process, which serves commands with the account it was started with
+let inDaemon = false;
+let daemonAccount: { secretKey: Fr; source: string } | null = null;
+
+// Set while the shell runs commands, which stay in this process, with the
+// account and flags the shell was started with
+let inShell = false;
+let shellSession: {
+  globalPassphrase: string | null;
+  globalWalletName: string | null;
+  useLegacyKdf: boolean;
+  dryRun: boolean;
+  overrides: ConfigOverrides;
+} | null = null;
+
+/**
+ * Get the passphrase key derivation for this session.
+ * Profiles that haven't migrated use the legacy derivation, with a nudge.
+ */
+function getKeyDerivation(): KeyDerivation {
+  if (useLegacyKdf) return LEGACY_KEY_DERIVATION;
+
+  const derivation = loadConfig().keyDerivation;
+  if (!derivation) {
+    display.warn("Using the legacy passphrase derivation, which is easy to brute-force.");
+    display.info("Run 'yarn cli wallet migrate' to move to the stronger v2 derivation.");
+  }
+  return derivation ?? LEGACY_KEY_DERIVATION;
+}
+
+/**
+ * Get the passphrase from -p, ZK_PASSPHRASE, or a prompt.
+ */
+async function getPassphrase(): Promise<string> {
+  return globalPassphrase || await prompts.promptPassphrase();
+}
+
+/**
+ * Decide whether client-side proving is needed for the current node.
+ * Presets are known; for a custom node the user is asked once and the
+ * answer is saved with the profile.
+ */
+async function resolveProverEnabled(node: AztecNode): Promise<boolean> {
+  const known = getProverEnabled();
+  if (known !== undefined) return known;
+
+  // Local networks settle on an anvil L1 (chain id 31337) and skip proofs
+  let isLocal = false;
+  try {
+    const { l1ChainId } = await node.getNodeInfo();
+    isLocal = l1ChainId === 31337;
+  } catch {
+    // Fall back to assuming a remote network
+  }
+
+  const proverEnabled = await prompts.promptProverEnabled(!isLocal);
+  updateConfig({ proverEnabled });
+  return proverEnabled;
+}
 
 /**
- * Initialize TestWallet connection.
+ * Apply the configured timeouts and retries to node calls.
  */
-async function initTestWallet(): Promise<{ wallet: TestWallet; node: AztecNode }> {
-  if (testWallet && aztecNode) return { wallet: testWallet, node: aztecNode };
+function applyRequestPolicy(): void {
+  const config = loadConfig();
+  getRequestPolicy().configure({
+    timeoutMs: config.requestTimeout! * 1000,
+    maxAttempts: config.maxAttempts!,
+    sendTimeoutMs: config.sendTimeout! * 1000,
+  });
+}
 
+/**
+ * Connect to the Aztec node (no wallet or account needed).
+ */
+async function initNode(): Promise<AztecNode> {
+  // Per command, since flags may differ between shell commands
+  applyRequestPolicy();
   const nodeUrl = getNodeUrl();
+  if (aztecNode?.url === nodeUrl) return aztecNode.node;
+
   const network = getNetwork();
   display.step(`Connecting to ${network} (${nodeUrl})...`);
 
   const node = createAztecNodeClient(nodeUrl);
 
   try {
-    await waitForNode(node);
+    await getRequestPolicy().run("Connecting to the node", () => waitForNode(node), { retry: false });
   } catch (err) {
-    display.error(`Failed to connect to Aztec node at ${nodeUrl}`);
-    if (network === "sandbox") {
-      display.info("Make sure the Aztec sandbox is running: aztec start --sandbox");
-    } else {
-      display.info("Check your network connection or try --sandbox for local development");
-    }
-    process.exit(1);
+    const hint = network === "sandbox"
+      ? "Make sure the Aztec sandbox is running: aztec start --sandbox"
+      : network === "custom"
+        ? "Check that the node is reachable, or change it with 'yarn cli config set-node <url>'"
+        : "Check your network connection or try --sandbox for local development";
+    throw new Error(`Failed to connect to Aztec node at ${nodeUrl}. ${hint}`);
   }
 
-  // Create TestWallet with prover enabled for devnet/next-devnet
-  const proverEnabled = network !== "sandbox";
+  aztecNode = { url: nodeUrl, node };
+  display.success(`Connected to ${network}`);
+  return node;
+}
+
+/**
+ * Initialize TestWallet connection, backed by the persistent store for
+ * this network and account (a shared store when no account is given).
+ */
+async function initTestWallet(account?: AztecAddress): Promise<{ wallet: TestWallet; node: AztecNode }> {
+  // The store directory is per network, so an open wallet uses the current node
+  const node = await initNode();
+  const open = testWallets.get(getPXEStoreDir(account));
+  if (open) return { wallet: open.wallet, node };
+
+  // Create TestWallet with prover enabled where the node verifies proofs
+  const proverEnabled = await resolveProverEnabled(node);
   if (proverEnabled) {
     display.info("Proving enabled");
   }
-  testWallet = await TestWallet.create(node, { proverEnabled });
-  aztecNode = node;
+  const { store, dir, cold } = await openPXEStore(account);
+  const wallet = await TestWallet.create(node, { proverEnabled }, { store });
+  testWallets.set(dir, { wallet, cold });
 
-  display.success(`Connected to ${network}`);
-  return { wallet: testWallet, node: aztecNode };
+  return { wallet, node };
 }
 
 /**
- * Get wallet from passphrase, prompting if needed.
+ * Get the session's account secret key without touching the network:
+ * a keystore wallet (--wallet or the profile's `wallet use` choice) unless
+ * a passphrase was given, otherwise the key derived from the passphrase.
+ */
+async function getAccountSecretKey(): Promise<{ secretKey: Fr; source: string }> {
+  if (commandAccount) return commandAccount;
+  if (daemonAccount && !globalPassphrase && !globalWalletName) return daemonAccount;
+
+  // An explicit passphrase wins over the profile's keystore wallet
+  const walletName = globalWalletName ?? (globalPassphrase ? undefined : loadConfig().wallet);
+  if (walletName) {
+    return { secretKey: await loadWalletSecretKey(walletName), source: `keystore wallet "${walletName}"` };
+  }
+
+  // Use global passphrase if set, otherwise prompt
+  const passphrase = await getPassphrase();
+  if (passphrase === WELL_KNOWN_ADMIN_PASSPHRASE) {
+    warnWellKnownAdmin("You are signing with the well-known admin passphrase");
+  }
+  const derivation = getKeyDerivation();
+  const source = derivation.version === 2 ? `passphrase (v2, username "${derivation.user}")` : "passphrase (v1, legacy)";
+  return { secretKey: await deriveSecretKey(passphrase, derivation), source };
+}
+
+/**
+ * Warn loudly that an admin account's key is public.
+ */
+function warnWellKnownAdmin(title: string): void {
+  display.alarm(title, [
+    `"${WELL_KNOWN_ADMIN_PASSPHRASE}" was published in the docs, so anyone can sign as this account`,
+    "and advance the phases of any game it administers.",
+    "Deploy a new contract with 'setup --full-deploy' to get a private admin key.",
+  ]);
+}
+
+/**
+ * Describe how and on which node the account is being chosen, to tell when
+ * a cached one still applies.
+ */
+function getAccountChoice(): string {
+  return JSON.stringify([
+    getActiveProfileName(),
+    getNodeUrl(),
+    globalWalletName,
+    globalPassphrase,
+    useLegacyKdf,
+    commandAccount?.source,
+  ]);
+}
+
+/**
+ * Get the session's account, deploying it if needed.
  */
 async function getWallet(): Promise<{ wallet: TestWallet; accountAddress: AztecAddress; secretKey: Fr; node: AztecNode }> {
-  // Use cached account if available
-  if (testWallet && cachedAccountAddress && cachedSecretKey && aztecNode) {
-    return { wallet: testWallet, accountAddress: cachedAccountAddress, secretKey: cachedSecretKey, node: aztecNode };
+  // Use cached account if this command chose the same one
+  const choice = getAccountChoice();
+  if (sessionAccount && sessionAccountChoice === choice) {
+    return { ...sessionAccount, node: await initNode() };
   }
 
-  const { wallet: tw, node } = await initTestWallet();
+  const { secretKey: accountSecretKey, source } = await getAccountSecretKey();
+  const address = await getAccountAddress(accountSecretKey);
+  const storeDir = getPXEStoreDir(address);
+  const ready = readyAccounts.get(storeDir);
+  if (ready) {
+    sessionAccount = ready;
+    sessionAccountChoice = choice;
+    return { ...ready, node: await initNode() };
+  }
 
-  // Use global passphrase if set, otherwise prompt
-  const passphrase = globalPassphrase || await prompts.promptPassphrase();
+  const startedAt = Date.now();
+  const opened = !testWallets.has(storeDir);
+  const { wallet: tw, node } = await initTestWallet(address);
 
-  display.step("Initializing wallet...");
+  display.step(`Initializing wallet from ${source}...`);
 
-  const { wallet, accountAddress, secretKey, isNewDeployment } = await getOrDeployWallet(
+  const sentAt = new Date().toISOString();
+  const { wallet, accountAddress, secretKey, isNewDeployment, deployReceipt } = await getOrDeployAccount(
     tw,
-    passphrase,
+    accountSecretKey,
+    getFeeStrategy(),
     true // Deploy if needed
   );
 
-  if (isNewDeployment) {
+  if (deployReceipt) {
+    recordAccountDeployment(deployReceipt, accountAddress, sentAt);
     display.success("Account deployed!");
   }
 
   display.walletInfo(accountAddress.toString(), isNewDeployment);
+  if (opened) {
+    recordPXEStartup(storeDir, Date.now() - startedAt, testWallets.get(storeDir)!.cold);
+  }
 
   // Cache account info for this session
-  cachedAccountAddress = accountAddress;
-  cachedSecretKey = secretKey;
+  sessionAccount = { wallet, accountAddress, secretKey };
+  sessionAccountChoice = choice;
+  readyAccounts.set(storeDir, sessionAccount);
 
   return { wallet, accountAddress, secretKey, node };
 }
@@ -117,35 +344,183 @@ async function getAdminWallet(): Promise<{ wallet: TestWallet; accountAddress: A
   return { wallet, accountAddress, node };
 }
 
+/**
+ * Get a reader for game state. Without a passphrase or --wallet it reads
+ * public storage straight from the node (spectator mode), so observers and
+ * dashboards never prompt for keys or create accounts.
+ */
+async function getGameReader(): Promise<{ reader: GameReader; node: AztecNode }> {
+  const contractAddress = AztecAddress.fromString(getContractAddress());
+
+  if (globalPassphrase || globalWalletName) {
+    const { wallet, accountAddress, node } = await getWallet();
+    const contract = await connectToContract(wallet, contractAddress, node);
+    return { reader: contractGameReader(contract, accountAddress), node };
+  }
+
+  const node = await initNode();
+  display.info("Spectator mode: reading public game state (pass -p or --wallet to use your account)");
+  return { reader: await publicGameReader(node, contractAddress), node };
+}
+
+interface SetupOptions {
+  admin?: string;
+  connect?: string;
+  fullDeploy?: boolean;
+  verify?: boolean;
+  salt?: string;
+  deployer?: string;
+  predict?: boolean;
+  adminWallet: string;
+}
+
+/**
+ * Parse a --salt value (a hex field element).
+ */
+function parseSalt(value: string): Fr {
+  if (!/^0x[0-9a-fA-F]{1,64}$/.test(value)) {
+    throw new Error(`Salt must be 0x followed by up to 64 hex characters, got "${value}"`);
+  }
+  return Fr.fromHexString(value);
+}
+
+/**
+ * Turn --salt and --deployer into deploy options for the sending account.
+ * A deployer other than the sender can only be predicted, not deployed as.
+ */
+function parseDeployOptions(options: SetupOptions, from: AztecAddress): DeployOptions {
+  const deployOptions: DeployOptions = {};
+  if (options.salt) deployOptions.salt = parseSalt(options.salt);
+  if (options.deployer === "universal") {
+    deployOptions.universal = true;
+  } else if (options.deployer && !AztecAddress.fromString(options.deployer).equals(from)) {
+    throw new Error(`--deployer must be "universal" or the sending account (${from})`);
+  }
+  return deployOptions;
+}
+
+/**
+ * Deploy the contract, keep its receipt in the history and its salt,
+ * deployer and block in config, and return its address.
+ */
+async function deployAndRecord(
+  wallet: TestWallet,
+  admin: AztecAddress,
+  from: AztecAddress,
+  options: DeployOptions
+): Promise<string> {
+  if (options.salt) {
+    const deployer = options.universal ? AztecAddress.ZERO : from;
+    display.keyValue("Expected address", (await predictContractAddress(admin, options.salt, deployer)).toString());
+  }
+
+  const sentAt = new Date();
+  const fee = await getFeeStrategy().getFeeOptions(wallet, from);
+  const { contract, receipt, salt, deployer } = await deployContract(wallet, admin, from, fee, options);
+  const contractAddress = contract.address.toString();
+  recordReceipt(receipt, {
+    action: "deploy_contract",
+    description: `Deploys SecretSanta with admin ${admin}`,
+    account: from.toString().toLowerCase(),
+    contractAddress: contractAddress.toLowerCase(),
+    sentAt: sentAt.toISOString(),
+  });
+  saveDeployedContract(contractAddress, {
+    salt: salt.toString(),
+    deployer: deployer.toString(),
+    deployBlock: receipt.blockNumber,
+  });
+  display.txReceipt({ txHash: receipt.txHash.toString(), durationMs: Date.now() - sentAt.getTime(), receipt });
+  display.keyValue("Salt", salt.toString());
+  return contractAddress;
+}
+
+/**
+ * Compute where `setup` would deploy the contract, without a node or wallet.
+ * Uses the session account as admin and deployer unless they're given.
+ */
+async function predictDeployment(options: SetupOptions): Promise<void> {
+  const salt = options.salt ? parseSalt(options.salt) : Fr.random();
+  const account = !options.admin || !options.deployer
+    ? await getAccountAddress((await getAccountSecretKey()).secretKey)
+    : undefined;
+  const admin = options.admin ? AztecAddress.fromString(options.admin) : account!;
+  const universal = options.deployer === "universal";
+  const deployer = universal
+    ? AztecAddress.ZERO
+    : options.deployer ? AztecAddress.fromString(options.deployer) : account!;
+
+  display.header("Predicted Deployment");
+  display.keyValue("Address", (await predictContractAddress(admin, salt, deployer)).toString());
+  display.keyValue("Admin", admin.toString());
+  display.keyValue("Salt", salt.toString());
+  display.keyValue("Deployer", universal ? "universal (zero address)" : deployer.toString());
+  display.divider();
+  if (!options.salt) {
+    display.info("The salt was chosen at random; pass it with --salt to deploy at this address.");
+  }
+  display.info(
+    `Deploy with: yarn cli setup --admin ${admin} --salt ${salt}` + (universal ? " --deployer universal" : "")
+  );
+}
+
 /**
  * Setup command - configure contract address.
  */
-async function setup(options: { admin?: string; connect?: string; fullDeploy?: boolean }): Promise<void> {
+async function setup(options: SetupOptions): Promise<void> {
+  if (options.verify) {
+    await verifyContract(options.connect);
+    return;
+  }
+  if (options.predict) {
+    if (options.fullDeploy) {
+      // The keystore keeps the address, so no password is needed
+      const adminWallet = getKeystoreWallet(options.adminWallet);
+      if (!adminWallet) {
+        throw new Error(
+          `Admin wallet "${options.adminWallet}" doesn't exist yet; its key is random, so there's nothing to predict. ` +
+            "Run 'setup --full-deploy' first, or predict with --admin."
+        );
+      }
+      options = { ...options, admin: adminWallet.address, deployer: options.deployer ?? adminWallet.address };
+    }
+    await predictDeployment(options);
+    return;
+  }
+
   display.header("ZK Secret Santa Setup");
 
-  // Handle --full-deploy: use fixed passphrase and deploy with that account as admin
+  // Handle --full-deploy: create a private admin account and deploy with it as admin
   if (options.fullDeploy) {
-    const adminPassphrase = "secret-santa-admin";
-    globalPassphrase = adminPassphrase;
-
-    display.step("Creating admin account from passphrase...");
-    const { wallet, accountAddress, node } = await getWallet();
-
-    // Show full untruncated address
-    display.divider();
-    display.keyValue("Admin Address", accountAddress.toString());
-    display.divider();
+    const secretKey = await provisionAdminWallet(options.adminWallet);
+    commandAccount = { secretKey, source: `keystore wallet "${options.adminWallet}"` };
+    sessionAccount = null;
+    try {
+      display.step("Deploying admin account...");
+      const { wallet, accountAddress } = await getWallet();
 
-    display.step("Deploying SecretSanta contract...");
-    const contract = await deployContract(wallet, accountAddress);
-    const contractAddress = contract.address.toString();
+      // Show full untruncated address
+      display.divider();
+      display.keyValue("Admin Address", accountAddress.toString());
+      display.divider();
 
-    updateConfig({ contractAddress });
+      display.step("Deploying SecretSanta contract...");
+      const contractAddress = await deployAndRecord(
+        wallet,
+        accountAddress,
+        accountAddress,
+        parseDeployOptions(options, accountAddress)
+      );
 
-    display.divider();
-    display.keyValue("Contract Address", contractAddress);
-    display.divider();
-    display.success("Full deploy complete! Contract deployed and saved to config.");
+      display.divider();
+      display.keyValue("Contract Address", contractAddress);
+      display.divider();
+      display.success("Full deploy complete! Contract deployed and saved to config.");
+      display.info(`Run admin commands with --wallet ${options.adminWallet}, e.g. 'yarn cli --wallet ${options.adminWallet} admin create'`);
+    } finally {
+      // Later commands in the shell sign with their own account again
+      commandAccount = null;
+    }
     return;
   }
 
@@ -189,10 +564,12 @@ async function setup(options: { admin?: string; connect?: string; fullDeploy?: b
     display.step("Deploying new SecretSanta contract...");
     display.keyValue("Admin", adminAddress.toString());
 
-    const contract = await deployContract(wallet, adminAddress);
-    const contractAddress = contract.address.toString();
-
-    updateConfig({ contractAddress });
+    const contractAddress = await deployAndRecord(
+      wallet,
+      adminAddress,
+      accountAddress,
+      parseDeployOptions(options, accountAddress)
+    );
 
     display.contractInfo(contractAddress, true);
     display.success("Contract deployed and saved to config!");
@@ -202,29 +579,127 @@ async function setup(options: { admin?: string; connect?: string; fullDeploy?: b
 
     // Verify contract exists
     try {
-      await connectToContract(wallet, AztecAddress.fromString(contractAddress), node);
+      const contract = await connectToContract(wallet, AztecAddress.fromString(contractAddress), node);
       updateConfig({ contractAddress });
 
       display.contractInfo(contractAddress);
       display.success("Connected to contract and saved to config!");
+      // Only a warning, so a failed lookup doesn't undo the connection
+      const admin = await getContractAdmin(contract, accountAddress).catch(() => undefined);
+      if (admin && (await isWellKnownAdmin(admin))) {
+        warnWellKnownAdmin("This contract's admin uses the well-known passphrase");
+      }
     } catch (err: any) {
-      display.error(`Failed to connect to contract: ${err.message}`);
-      process.exit(1);
+      // Keep typed errors (e.g. a class mismatch) so their hint is shown
+      if (err instanceof SecretSantaError) throw err;
+      throw new Error(`Failed to connect to contract: ${err.message}`);
     }
   }
 }
 
+/**
+ * Check a contract (the configured one by default) against the local
+ * artifact, showing both class IDs, the artifact's version and the admin.
+ */
+async function verifyContract(address?: string): Promise<void> {
+  const contractAddress = AztecAddress.fromString(address || getContractAddress());
+  const { wallet, node } = await initTestWallet();
+  const artifact = await getArtifactInfo();
+  const { deployedClassId, matches } = await checkContractClass(node, contractAddress);
+
+  display.header("Contract Verification");
+  display.keyValue("Address", contractAddress.toString());
+  display.keyValue("Deployed class", deployedClassId.toString());
+  display.keyValue("Artifact class", artifact.classId.toString());
+  display.keyValue("Artifact", `${artifact.name} (Noir ${artifact.noirVersion})`);
+  display.keyValue("Match", matches ? display.chalk.green("yes") : display.chalk.red("no"));
+  let wellKnownAdmin = false;
+  if (matches) {
+    const contract = await connectToContract(wallet, contractAddress, node);
+    // get_admin is a public view, so no account is needed to call it
+    const admin = await getContractAdmin(contract, AztecAddress.ZERO);
+    display.keyValue("Admin", admin.toString());
+    wellKnownAdmin = await isWellKnownAdmin(admin);
+  }
+  display.divider();
+  if (wellKnownAdmin) {
+    warnWellKnownAdmin("This contract's admin uses the well-known passphrase");
+  }
+
+  if (!matches) {
+    throw new ArtifactMismatchError(`The contract at ${contractAddress} wasn't deployed from the local SecretSanta artifact`);
+  }
+  display.success("The deployed contract matches the local artifact");
+}
+
 /**
  * Info command - show current configuration.
  */
 async function showInfo(): Promise<void> {
-  const config = loadConfig();
+  const { profile, config, sources } = resolveConfig();
+
+  // Show each effective value with the layer it came from
+  const withSource = (value: string, key: keyof typeof sources) =>
+    `${value} ${display.chalk.dim(`(${formatConfigSource(sources[key])})`)}`;
 
   display.header("ZK Secret Santa Configuration");
-  display.keyValue("Network", config.network || "sandbox");
-  display.keyValue("Node URL", config.nodeUrl);
-  display.keyValue("Contract", config.contractAddress || "(not set)");
-  display.keyValue("Current Game", config.currentGameId?.toString() || "(not set)");
+  display.keyValue("Profile", withSource(profile, "profile"));
+  display.keyValue("Network", withSource(config.network, "network"));
+  display.keyValue("Node URL", withSource(config.nodeUrl, "nodeUrl"));
+  if (config.network === "custom") {
+    const proving = config.proverEnabled === undefined ? "(ask on connect)" : config.proverEnabled ? "enabled" : "disabled";
+    display.keyValue("Proving", withSource(proving, "proverEnabled"));
+  }
+  const fees = config.feeMode?.endsWith("-fpc") ? `${config.feeMode} via ${config.fpcAddress || "(no fpcAddress)"}` : config.feeMode!;
+  display.keyValue("Fees", withSource(fees, "feeMode"));
+  display.keyValue("Request timeout", withSource(`${config.requestTimeout}s`, "requestTimeout"));
+  display.keyValue("Max attempts", withSource(String(config.maxAttempts), "maxAttempts"));
+  display.keyValue("Send timeout", withSource(`${config.sendTimeout}s`, "sendTimeout"));
+  display.keyValue("Wallet", config.wallet ? `keystore "${config.wallet}"` : "passphrase");
+  const derivation = config.keyDerivation;
+  display.keyValue("Key derivation", derivation?.version === 2 ? `v2 (username "${derivation.user}")` : "v1 (legacy)");
+  display.keyValue("Contract", withSource(config.contractAddress || "(not set)", "contractAddress"));
+  display.keyValue("Current Game", withSource(config.currentGameId?.toString() || "(not set)", "currentGameId"));
+  display.divider();
+
+  // Every network remembers its own deployment
+  display.header("Deployments by Network");
+  const currentKey = getDeploymentKey(config);
+  const deployments = Object.entries(config.deployments);
+  if (deployments.length === 0) {
+    display.info("No deployments recorded yet");
+  }
+  for (const [key, deployment] of deployments) {
+    const label = key === currentKey ? `${key} (current)` : key;
+    const game = deployment.currentGameId !== undefined ? `game #${deployment.currentGameId}` : "no game";
+    display.keyValue(label, `${deployment.contractAddress || "(no contract)"}, ${game}`);
+    if (deployment.salt) {
+      const deployer = /^0x0+$/.test(deployment.deployer ?? "") ? "universal" : display.formatAddress(deployment.deployer ?? "");
+      const block = deployment.deployBlock !== undefined ? `, block ${deployment.deployBlock}` : "";
+      display.keyValue("  Deployed with", `salt ${deployment.salt}, deployer ${deployer}${block}`);
+    }
+  }
+  display.divider();
+
+  // Wallet state is cached per account; show what reusing it saves
+  display.header("Wallet Cache");
+  const stores = listPXEStores(true);
+  if (stores.length === 0) {
+    display.info("Nothing cached for this network yet");
+  }
+  for (const { account, sizeBytes, stats } of stores) {
+    const parts = [display.formatBytes(sizeBytes)];
+    if (stats?.warmStartMs !== undefined) {
+      parts.push(`starts in ${display.formatDuration(stats.warmStartMs)}`);
+      if (stats.coldStartMs !== undefined) {
+        const saved = Math.max(0, stats.coldStartMs - stats.warmStartMs);
+        parts.push(`first run ${display.formatDuration(stats.coldStartMs)}, saves ${display.formatDuration(saved)}`);
+      }
+    } else if (stats?.coldStartMs !== undefined) {
+      parts.push(`first run ${display.formatDuration(stats.coldStartMs)}`);
+    }
+    display.keyValue(account, parts.join(", "));
+  }
   display.divider();
 
   if (config.contractAddress) {
@@ -232,97 +707,352 @@ async function showInfo(): Promise<void> {
   } else {
     display.info("Run 'yarn cli setup' to configure the contract");
   }
-  display.info("Use --sandbox or --devnet to switch networks");
+  display.info("Use --sandbox, --devnet or --node-url <url> to switch networks");
+  display.info("Use --profile <name> or 'yarn cli profile use <name>' to switch profiles");
+  display.info("Use 'yarn cli config set <key> <value>' or ZK_* env vars to override settings");
 }
 
+// Short, non-interactive commands that gain from a warm wallet, and whether
+// they only read. The rest are local, prompt, or wait on other players.
+const FORWARDED_COMMANDS = new Map<string, "read" | "write">([
+  ["status", "read"],
+  ["admin status", "read"],
+  ["admin create", "write"],
+  ["admin advance", "write"],
+  ["games list", "read"],
+  ["delivery", "read"],
+  ["whoami", "read"],
+]);
+// Options without which a forwarded command would prompt
+const PROMPT_FREE_OPTIONS: Record<string, string[]> = {
+  "admin create": ["min", "max"],
+  delivery: ["slot"],
+};
+// Global options the daemon can serve; the rest change how a command runs
+const DAEMON_GLOBAL_OPTIONS = new Set(["daemon", "profile"]);
+
 /**
- * Main CLI setup.
+ * Check whether a command can run in the daemon, and whether it only reads.
  */
-const program = new Command();
-
-program
-  .name("zk-santa")
-  .description("ZK Secret Santa - Privacy-preserving gift exchange on Aztec")
-  .version(VERSION)
-  .option("--sandbox", "Connect to local sandbox (localhost:8080)")
-  .option("--devnet", "Connect to Aztec devnet (devnet.aztec-labs.com)")
-  .option("--next-devnet", "Connect to Aztec next-devnet (next.devnet.aztec-labs.com)")
-  .option("-p, --passphrase <passphrase>", "Passphrase for wallet (avoids interactive prompt)")
-  .hook("preAction", (thisCommand) => {
-    const opts = thisCommand.opts();
-    if (opts.sandbox) {
-      setNetwork("sandbox");
-    } else if (opts.devnet) {
-      setNetwork("devnet");
-    } else if (opts.nextDevnet) {
-      setNetwork("next-devnet");
-    }
-    if (opts.passphrase) {
-      globalPassphrase = opts.passphrase;
-    } else if (process.env.ZK_PASSPHRASE) {
-      globalPassphrase = process.env.ZK_PASSPHRASE;
-    }
-  });
+function getForwarding(program: Command, command: Command): "read" | "write" | undefined {
+  const path: string[] = [];
+  for (let current: Command | null = command; current?.parent; current = current.parent) {
+    path.unshift(current.name());
+  }
+  const name = path.join(" ");
+  const opts = command.opts();
+  if ((PROMPT_FREE_OPTIONS[name] ?? []).some((key) => opts[key] === undefined)) {
+    return undefined;
+  }
+  if (Object.entries(program.opts()).some(([key, value]) => !DAEMON_GLOBAL_OPTIONS.has(key) && value !== undefined)) {
+    return undefined;
+  }
+  return FORWARDED_COMMANDS.get(name);
+}
+
+/**
+ * Run this invocation in the daemon if one serves the same profile, network,
+ * directory and account. Returns its exit code, or null to run it here.
+ */
+async function forwardCommand(forwarding: "read" | "write"): Promise<number | null> {
+  const status = await getDaemonStatus().catch(() => null);
+  if (!status?.account) return null;
+  const config = loadConfig();
+  if (status.profile !== getActiveProfileName() || status.network !== getDeploymentKey(config) || status.cwd !== process.cwd()) {
+    return null;
+  }
+
+  // Name the profile's keystore wallet so the daemon won't sign as another account
+  let account: string | undefined;
+  if (config.wallet) {
+    account = getKeystoreWallet(config.wallet)?.address;
+    if (!account) return null;
+  }
+  return forwardToDaemon(
+    { argv: process.argv.slice(2), env: getDaemonEnv(), account, readOnly: forwarding === "read" },
+    display.chalk.level > 0
+  );
+}
 
-// Setup command
-program
-  .command("setup")
-  .description("Configure contract (deploy new or connect to existing)")
-  .option("--admin <address>", "Deploy new contract with this admin address")
-  .option("--connect <address>", "Connect to existing contract at address")
-  .option("--full-deploy", "Create admin account and deploy contract (uses passphrase 'secret-santa-admin')")
-  .action(async (options) => {
+/**
+ * Send the daemon's output to the caller of the command that wrote it.
+ */
+function routeOutputToCallers(): void {
+  for (const name of ["stdout", "stderr"] as const) {
+    const stream = process[name];
+    const write = stream.write.bind(stream);
+    stream.write = ((chunk: string | Uint8Array, ...rest: any[]) => {
+      const command = forwardedCommand.getStore();
+      if (!command) return write(chunk, ...rest);
+      command.write(name, chunk.toString());
+      return true;
+    }) as typeof stream.write;
+  }
+}
+
+/**
+ * Run a forwarded command in the daemon with its output sent back to the caller.
+ * It carries no session options (see getForwarding), so the daemon's settings apply.
+ */
+async function runForwardedCommand(
+  request: DaemonRunRequest,
+  write: (stream: "stdout" | "stderr", data: string) => void
+): Promise<number> {
+  const command: ForwardedCommand = { write };
+  return forwardedCommand.run(command, async () => {
     try {
-      await setup(options);
+      await createProgram(true).parseAsync(request.argv, { from: "user" });
+      return command.exitCode ?? 0;
     } catch (err: any) {
-      display.error(err.message);
-      process.exit(1);
+      if (err instanceof CommanderError) return err.exitCode;
+      display.failure(err);
+      return 1;
     }
   });
+}
 
-// Info command
-program
-  .command("info")
-  .description("Show current configuration")
-  .action(async () => {
-    try {
-      await showInfo();
-    } catch (err: any) {
-      display.error(err.message);
-      process.exit(1);
+const daemonHandlers: DaemonHandlers = {
+  async init(secretKey, source) {
+    inDaemon = true;
+    routeOutputToCallers();
+    // Callers strip colors their terminal can't show
+    display.chalk.level = 1;
+    daemonAccount = { secretKey: Fr.fromBuffer(secretKey), source };
+    globalPassphrase = null;
+    globalWalletName = null;
+    const { wallet, accountAddress, node } = await getWallet();
+    // Register the game contract now so the first command doesn't
+    if (hasContractAddress()) {
+      await connectToContract(wallet, AztecAddress.fromString(getContractAddress()), node).catch(() => undefined);
     }
-  });
+    return accountAddress.toString();
+  },
+  async run(request, write) {
+    inDaemon = true;
+    return runForwardedCommand(request, write);
+  },
+  describe() {
+    return { profile: getActiveProfileName(), network: getDeploymentKey(loadConfig()) };
+  },
+};
 
-// Status command (shortcut)
-program
-  .command("status")
-  .description("View current game status")
-  .option("--game <id>", "Game ID", parseInt)
-  .option("--events", "Use events for faster slot discovery")
-  .action(async (options) => {
+// Slot counts looked up for shell completion, reused for a few seconds
+const SLOT_COUNT_TTL_MS = 10_000;
+let slotCountCache: { game: string; count: number; at: number } | null = null;
+
+const shellContext: ShellContext = {
+  async connect() {
+    inShell = true;
+    shellSession = { globalPassphrase, globalWalletName, useLegacyKdf, dryRun: isDryRun(), overrides: getConfigOverrides() };
+    // Sign in now if an account was chosen, so commands don't ask later
+    if (globalPassphrase || globalWalletName) {
+      await getWallet();
+    } else {
+      await initNode();
+    }
+  },
+  async run(argv) {
+    // Flags such as -p, --profile or --fee-mode apply to one command, so
+    // start each from the shell's own
+    if (shellSession) {
+      ({ globalPassphrase, globalWalletName, useLegacyKdf } = shellSession);
+      restoreConfigOverrides(shellSession.overrides);
+    }
     try {
-      const { wallet, accountAddress, node } = await getAdminWallet();
-      await viewStatus(wallet, accountAddress, node, options);
+      await createProgram(true).parseAsync(argv, { from: "user" });
     } catch (err: any) {
-      display.error(err.message);
-      process.exit(1);
+      // Commander has already printed usage errors and help
+      if (!(err instanceof CommanderError)) display.failure(err);
     }
-  });
+    process.exitCode = undefined;
+  },
+  async getSlotCount(game) {
+    const gameId = getEffectiveGameId(game);
+    if (gameId === undefined || !hasContractAddress()) return undefined;
+    // Keyed by node and contract too, as shell commands can switch either
+    const key = `${getNodeUrl()} ${getContractAddress()} ${gameId}`;
+    if (slotCountCache?.game === key && Date.now() - slotCountCache.at < SLOT_COUNT_TTL_MS) {
+      return slotCountCache.count;
+    }
+    const reader = await publicGameReader(await initNode(), AztecAddress.fromString(getContractAddress()));
+    const { participantCount } = await reader.getGameState(BigInt(gameId));
+    slotCountCache = { game: key, count: participantCount, at: Date.now() };
+    return participantCount;
+  },
+};
 
-// Register admin commands
-registerAdminCommands(program, getAdminWallet);
+/**
+ * Build the CLI program. The daemon builds a fresh one for each command
+ * it runs, so option values never leak between commands.
+ */
+function createProgram(embedded: boolean = false): Command {
+  const program = new Command();
+  if (embedded) {
+    // Report exits to the caller instead of ending the process
+    program.exitOverride();
+  }
 
-// Register player commands
-registerPlayerCommands(program, getWallet);
+  program
+    .name("zk-santa")
+    .description("ZK Secret Santa - Privacy-preserving gift exchange on Aztec")
+    .version(VERSION)
+    .option("--sandbox", "Connect to local sandbox (localhost:8080)")
+    .option("--devnet", "Connect to Aztec devnet (devnet.aztec-labs.com)")
+    .option("--next-devnet", "Connect to Aztec next-devnet (next.devnet.aztec-labs.com)")
+    .option("--node-url <url>", "Connect to a custom Aztec node URL (saved to config)")
+    .option("-p, --passphrase <passphrase>", "Passphrase for wallet (avoids interactive prompt)")
+    .option("--wallet <name>", "Sign with this keystore wallet for this command")
+    .option("--profile <name>", "Use a named config profile for this command")
+    .option("--legacy-kdf", "Derive the account with the legacy passphrase derivation")
+    .option("--fee-mode <mode>", "How to pay fees: sponsored, fee-juice, private-fpc or public-fpc")
+    .option("--no-daemon", "Run this command here even if the daemon is running")
+    .option("--dry-run", "Simulate transactions and report the outcome without sending them")
+    .option("--timeout <seconds>", "Seconds to allow each node call before retrying it")
+    .option("--max-attempts <n>", "Attempts per node call before giving up (1-10)")
+    .option("--send-timeout <seconds>", "Seconds to wait for a sent transaction to be mined")
+    .hook("preAction", async (thisCommand, actionCommand) => {
+      const opts = thisCommand.opts();
+      // Select the profile first so network flags apply to it
+      if (opts.profile) {
+        setProfileOverride(opts.profile);
+      }
+      // Network flags are remembered in config and win over env vars for this run
+      const networkFlag = opts.sandbox ? "sandbox" : opts.devnet ? "devnet" : opts.nextDevnet ? "next-devnet" : null;
+      if (networkFlag) {
+        setNetwork(networkFlag);
+        setNetworkOverride(networkFlag, NETWORK_URLS[networkFlag], `--${networkFlag}`);
+      } else if (opts.nodeUrl) {
+        setCustomNodeUrl(opts.nodeUrl);
+        setNetworkOverride("custom", normalizeNodeUrl(opts.nodeUrl), "--node-url");
+      }
+      if (opts.feeMode) {
+        setFeeModeOverride(opts.feeMode);
+      }
+      if (opts.timeout) setRequestPolicyOverride("requestTimeout", opts.timeout, "--timeout");
+      if (opts.maxAttempts) setRequestPolicyOverride("maxAttempts", opts.maxAttempts, "--max-attempts");
+      if (opts.sendTimeout) setRequestPolicyOverride("sendTimeout", opts.sendTimeout, "--send-timeout");
+      if (opts.legacyKdf) {
+        useLegacyKdf = true;
+      }
+      // A shell started with --dry-run keeps it for every command
+      setDryRun(!!shellSession?.dryRun || !!opts.dryRun);
+      if (opts.wallet) {
+        globalWalletName = opts.wallet;
+      }
+      if (opts.passphrase) {
+        globalPassphrase = opts.passphrase;
+      } else if (process.env.ZK_PASSPHRASE) {
+        globalPassphrase = process.env.ZK_PASSPHRASE;
+      }
 
-// Register watch command
-registerWatchCommand(program, getAdminWallet);
+      // Commands using the daemon's account run in the daemon when it's up
+      const forwarding = getForwarding(thisCommand, actionCommand);
+      if (!inDaemon && !inShell && opts.daemon && !globalPassphrase && forwarding) {
+        const code = await forwardCommand(forwarding);
+        if (code !== null) process.exit(code);
+      }
+    });
 
-// Parse and execute
-program.parse();
+  // Setup command
+  program
+    .command("setup")
+    .description("Configure contract (deploy new or connect to existing)")
+    .option("--admin <address>", "Deploy new contract with this admin address")
+    .option("--connect <address>", "Connect to existing contract at address")
+    .option("--full-deploy", "Create a random admin account in the keystore and deploy the contract with it")
+    .option("--admin-wallet <name>", "Keystore wallet for the --full-deploy admin (reused if it exists)", DEFAULT_ADMIN_WALLET)
+    .option("--verify", "Check the contract (or --connect <address>) against the local artifact and show its admin")
+    .option("--salt <hex>", "Deploy with this address salt, for a reproducible address (default: random)")
+    .option("--deployer <address>", "Deployer in the address: your account (default) or 'universal' for none")
+    .option("--predict", "Compute the deployment address offline without sending anything")
+    .action(async (options) => {
+      try {
+        await setup(options);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  // Info command
+  program
+    .command("info")
+    .description("Show current configuration")
+    .action(async () => {
+      try {
+        await showInfo();
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  // Status command (shortcut)
+  program
+    .command("status")
+    .description("View current game status")
+    .option("--game <id>", "Game ID or alias")
+    .option("--events", "Use events for faster slot discovery")
+    .action(async (options) => {
+      try {
+        const { reader } = await getGameReader();
+        await viewStatus(reader, options);
+      } catch (err: any) {
+        display.failure(err);
+        setExitCode(1);
+      }
+    });
+
+  // Register admin commands
+  registerAdminCommands(program, getAdminWallet, getGameReader);
+
+  // Register player commands
+  registerPlayerCommands(program, getWallet);
+
+  // Register watch command
+  registerWatchCommand(program, getGameReader);
+
+  // Register games commands
+  registerGamesCommands(program, getGameReader);
+
+  // Register whoami command
+  registerWhoamiCommand(program, getAccountSecretKey, initTestWallet);
+
+  // Register wallet commands
+  registerWalletCommands(program, initTestWallet, getPassphrase, getKeyDerivation);
 
-// Cleanup on exit
-process.on("SIGINT", async () => {
+  // Register profile commands
+  registerProfileCommands(program);
+
+  // Register config commands
+  registerConfigCommands(program);
+
+  // Register cache commands
+  registerCacheCommands(program);
+
+  // Register transaction commands
+  registerTxCommands(program, initNode);
+
+  // Register daemon commands
+  registerDaemonCommands(program, getAccountSecretKey, daemonHandlers);
+
+  // Register shell command
+  registerShellCommand(program, shellContext);
+
+  return program;
+}
+
+// Cleanup on exit, unless a command (watch, dashboard) handles Ctrl+C itself
+process.on("SIGINT", () => {
+  if (process.listenerCount("SIGINT") > 1) return;
   display.info("\nGoodbye!");
   process.exit(0);
 });
+
+// Parse and execute
+try {
+  await createProgram().parseAsync();
+} catch (err: any) {
+  display.failure(err);
+  setExitCode(1);
+}
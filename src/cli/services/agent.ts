@@ -0,0 +1,203 @@
+/**
+ * Agent Service - Keeps unlocked wallet keys in memory for a session
+ *
+ * `wallet unlock` starts a small background process that holds decrypted
+ * secret keys and answers requests over a private local socket (see
+ * socket.ts). Keys expire after an idle timeout and the agent exits once
+ * it holds none.
+ */
+
+import { createConnection, createServer, type Socket } from "net";
+import { getSocketPath, isAuthorized, listenPrivate, readSocketToken } from "./socket.js";
+
+type AgentRequest = (
+  | { op: "get"; name: string }
+  | { op: "add"; name: string; secretKey: string; ttlMs: number }
+  | { op: "list" }
+  | { op: "lock" }
+) & { token?: string };
+
+interface AgentResponse {
+  ok: boolean;
+  error?: string;
+  secretKey?: string;
+  wallets?: Array<{ name: string; expiresAt: string }>;
+}
+
+// How long a request to the agent may take
+const REQUEST_TIMEOUT_MS = 2000;
+
+// How often the agent drops expired keys
+const SWEEP_INTERVAL_MS = 10_000;
+
+/**
+ * Get the agent's socket path for the current config directory.
+ */
+export function getAgentSocketPath(): string {
+  return getSocketPath("agent");
+}
+
+/**
+ * Send one request to the agent. Returns null if no agent is running.
+ */
+function request(req: AgentRequest): Promise<AgentResponse | null> {
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(getAgentSocketPath());
+    let data = "";
+
+    socket.setTimeout(REQUEST_TIMEOUT_MS, () => {
+      socket.destroy();
+      reject(new Error("Wallet agent did not respond"));
+    });
+    socket.on("connect", () => socket.write(JSON.stringify({ ...req, token: readSocketToken("agent") }) + "\n"));
+    socket.on("data", (chunk) => (data += chunk));
+    socket.on("end", () => {
+      try {
+        resolve(JSON.parse(data) as AgentResponse);
+      } catch {
+        reject(new Error("Wallet agent sent an invalid response"));
+      }
+    });
+    socket.on("error", (err: NodeJS.ErrnoException) => {
+      if (err.code === "ENOENT" || err.code === "ECONNREFUSED") {
+        resolve(null);
+      } else {
+        reject(err);
+      }
+    });
+  });
+}
+
+/**
+ * Check whether an agent is running for the current config directory.
+ */
+export async function isAgentRunning(): Promise<boolean> {
+  return (await request({ op: "list" })) !== null;
+}
+
+/**
+ * Get an unlocked wallet's secret key from the agent, if it holds one.
+ */
+export async function getAgentKey(name: string): Promise<Buffer | undefined> {
+  const response = await request({ op: "get", name });
+  return response?.secretKey ? Buffer.from(response.secretKey, "hex") : undefined;
+}
+
+/**
+ * Hand an unlocked secret key to the agent for ttlMs of idle time.
+ */
+export async function addAgentKey(name: string, secretKey: Buffer, ttlMs: number): Promise<void> {
+  const response = await request({ op: "add", name, secretKey: secretKey.toString("hex"), ttlMs });
+  if (!response) {
+    throw new Error("Wallet agent is not running");
+  }
+  if (!response.ok) {
+    throw new Error(response.error ?? "Wallet agent rejected the key");
+  }
+}
+
+/**
+ * List the wallets the agent holds, with their expiry times.
+ */
+export async function listAgentKeys(): Promise<Array<{ name: string; expiresAt: string }>> {
+  return (await request({ op: "list" }))?.wallets ?? [];
+}
+
+/**
+ * Tell the agent to forget all keys and exit. Returns false if none was running.
+ */
+export async function lockAgent(): Promise<boolean> {
+  return (await request({ op: "lock" })) !== null;
+}
+
+/**
+ * Wait for a newly spawned agent to accept connections.
+ */
+export async function waitForAgent(timeoutMs: number = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (await isAgentRunning()) return;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error("Wallet agent did not start");
+}
+
+/**
+ * Run the agent in this process until it holds no keys or is locked.
+ */
+export async function runAgent(): Promise<void> {
+  if (await isAgentRunning()) {
+    throw new Error("Wallet agent is already running");
+  }
+
+  const keys = new Map<string, { secretKey: string; ttlMs: number; expiresAt: number }>();
+  // The first key arrives right after startup
+  let idleSince = Date.now();
+
+  // Set once listening; requests without it are refused
+  let token = "";
+
+  const handle = (req: AgentRequest): AgentResponse => {
+    if (!isAuthorized(token, req.token)) return { ok: false, error: "unauthorized" };
+    const now = Date.now();
+    switch (req.op) {
+      case "get": {
+        const entry = keys.get(req.name);
+        if (!entry || entry.expiresAt <= now) return { ok: false, error: "locked" };
+        entry.expiresAt = now + entry.ttlMs;
+        return { ok: true, secretKey: entry.secretKey };
+      }
+      case "add":
+        keys.set(req.name, { secretKey: req.secretKey, ttlMs: req.ttlMs, expiresAt: now + req.ttlMs });
+        return { ok: true };
+      case "list":
+        return {
+          ok: true,
+          wallets: [...keys].map(([name, entry]) => ({ name, expiresAt: new Date(entry.expiresAt).toISOString() })),
+        };
+      case "lock":
+        keys.clear();
+        setImmediate(shutdown);
+        return { ok: true };
+      default:
+        return { ok: false, error: "unknown request" };
+    }
+  };
+
+  const server = createServer((socket: Socket) => {
+    let data = "";
+    socket.on("data", (chunk) => {
+      data += chunk;
+      const newline = data.indexOf("\n");
+      if (newline < 0) return;
+      let response: AgentResponse;
+      try {
+        response = handle(JSON.parse(data.slice(0, newline)) as AgentRequest);
+      } catch {
+        response = { ok: false, error: "invalid request" };
+      }
+      socket.end(JSON.stringify(response));
+    });
+    socket.on("error", () => socket.destroy());
+  });
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [name, entry] of keys) {
+      if (entry.expiresAt <= now) keys.delete(name);
+    }
+    if (keys.size > 0) {
+      idleSince = now;
+    } else if (now - idleSince >= SWEEP_INTERVAL_MS) {
+      shutdown();
+    }
+  }, SWEEP_INTERVAL_MS);
+
+  function shutdown(): void {
+    clearInterval(sweep);
+    server.close();
+  }
+
+  token = await listenPrivate(server, "agent");
+  await new Promise<void>((resolve) => server.once("close", () => resolve()));
+}
@@ -0,0 +1,547 @@
+/**
+ * Secret Santa Client - The protocol without the CLI
+ *
+ * Wraps a deployed SecretSanta contract for one account: creating and
+ * advancing games, enrolling, registering as sender, claiming as receiver,
+ * reading delivery data and watching a game. Every transaction is simulated
+ * once before it is proved and sent, so a failing one is reported in seconds
+ * rather than after a proving cycle, and a passing one reports its return
+ * value and gas. Node calls run under a RequestPolicy
+ * (timeouts, retries, circuit breaker). Methods return typed results
+ * and throw SecretSantaError subclasses for protocol failures, including
+ * contract assertions (e.g. SlotTakenError); nothing is printed,
+ * prompted or saved, so apps can embed it as is.
+ */
+
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import type { ContractFunctionInteraction } from "@aztec/aztec.js/contracts";
+import type { AztecNode } from "@aztec/aztec.js/node";
+import type { TxReceipt } from "@aztec/aztec.js/tx";
+import { TestWallet } from "@aztec/test-wallet/server";
+import type { SecretSantaContract } from "../../../artifacts/SecretSanta.js";
+import { connectToContract, getGameState, getNextGameIdAt, PHASE, PHASE_NAMES, type GameState } from "./contract.js";
+import { decryptDeliveryData, encryptDeliveryData, isEncryptedDataEmpty } from "./crypto.js";
+import { getSponsoredPaymentMethod, type FeeEstimate, type FeeOptions, type FeeStrategy } from "./fees.js";
+import { getEncryptionPublicKey, resolveDecryptionKey, type EncryptionPublicKey } from "./wallet.js";
+import { isTransientError, RequestPolicy, withTimeout } from "./policy.js";
+import {
+  DecryptionFailedError,
+  GameNotFoundError,
+  InvalidInputError,
+  InvalidSlotError,
+  NoDeliveryDataError,
+  NotSlotOwnerError,
+  RequestTimeoutError,
+  SlotTakenError,
+  toSecretSantaError,
+  WrongPhaseError,
+} from "./errors.js";
+
+// Offset of the cyclic receiver assignment (must match the contract)
+const RECEIVER_OFFSET = 137;
+
+// Default poll interval for watch
+const DEFAULT_WATCH_INTERVAL_MS = 5000;
+
+// How long a failed send may take to report its hash; it has none until proving ends
+const TX_HASH_TIMEOUT_MS = 5000;
+
+/**
+ * Builds fee options for a transaction about to be sent.
+ */
+export type FeeProvider = (interaction: ContractFunctionInteraction) => Promise<FeeOptions>;
+
+export interface SecretSantaClientOptions {
+  wallet: TestWallet;
+  node: AztecNode;
+  contractAddress: AztecAddress;
+  // Account that sends transactions and simulates reads
+  account: AztecAddress;
+  // The account's secret key; needed for registerSender and readDelivery
+  secretKey?: Fr;
+  // A strategy (see createFeeStrategy) or per-transaction provider; defaults to the sponsored FPC
+  fee?: FeeProvider | FeeStrategy;
+  // Only simulate transactions; results then describe what would happen
+  dryRun?: boolean;
+  // Called with a transaction's simulation once it passed, before it is
+  // proved and sent
+  onPreflight?: (preflight: Preflight) => void;
+  // Called when a sent transaction is mined or fails (e.g. to keep receipts)
+  onTransaction?: (tx: SentTransaction) => void;
+  // Timeouts and retries for node calls; defaults to a policy of its own
+  // with DEFAULT_REQUEST_POLICY
+  requestPolicy?: RequestPolicy;
+}
+
+/**
+ * What a transaction did in its simulation.
+ */
+export interface Preflight {
+  // Contract function called
+  method: string;
+  // What the transaction does, including what the simulation returned
+  effect: string;
+  // The function's return value in the simulation
+  result: unknown;
+  // Gas the simulation used, and its fee at current base fees
+  estimate: FeeEstimate;
+}
+
+/**
+ * A transaction the client sent, after it was mined or failed.
+ */
+export interface SentTransaction {
+  // Contract function called
+  method: string;
+  // What the transaction does
+  effect: string;
+  gameId?: number;
+  txHash: string;
+  sentAt: Date;
+  // Set once mined
+  receipt?: TxReceipt;
+  // Set if it failed or was dropped
+  error?: string;
+}
+
+/**
+ * A mined transaction, or a simulated one when the client is in dry-run mode.
+ */
+export type TxResult =
+  | {
+      dryRun: false;
+      txHash: string;
+      // Time from send to mined
+      durationMs: number;
+      // Status, block and fee of the mined transaction
+      receipt: TxReceipt;
+      // The function's return value in the simulation, corrected from the
+      // mined block where the client can (a new game's ID)
+      result: unknown;
+    }
+  | { dryRun: true; preflight: Preflight };
+
+export type CreateGameResult = TxResult & {
+  gameId: number;
+};
+
+export type AdvancePhaseResult = TxResult & {
+  previousPhase: number;
+  phase: number;
+};
+
+export type RegisterSenderResult = TxResult & {
+  slot: number;
+  // The game-scoped public key receivers encrypt to
+  encryptionKey: EncryptionPublicKey;
+};
+
+export type ClaimReceiverResult = TxResult & {
+  senderSlot: number;
+  receiverSlot: number;
+};
+
+export interface DeliveryData {
+  slot: number;
+  deliveryAddress: string;
+  // The slot was registered with the signing key (before game-scoped keys)
+  legacyKey: boolean;
+}
+
+/**
+ * A change seen while watching a game. The first event is always "state".
+ */
+export type GameEvent =
+  | { type: "state"; state: GameState }
+  | { type: "phaseChanged"; from: number; to: number; state: GameState }
+  | { type: "senderRegistered"; slot: number; state: GameState }
+  | { type: "receiverClaimed"; slot: number; state: GameState };
+
+export interface WatchOptions {
+  intervalMs?: number;
+  // Stops the watch; the generator then returns
+  signal?: AbortSignal;
+}
+
+type DeliveryFields = [bigint, bigint, bigint, bigint, bigint, bigint, bigint, bigint];
+
+/**
+ * Wait for ms, or less if the signal aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done);
+  });
+}
+
+export class SecretSantaClient {
+  private constructor(
+    readonly contract: SecretSantaContract,
+    readonly account: AztecAddress,
+    private readonly wallet: TestWallet,
+    private readonly node: AztecNode,
+    private readonly secretKey: Fr | undefined,
+    private readonly fee: FeeProvider,
+    private readonly policy: RequestPolicy,
+    private readonly options: Pick<SecretSantaClientOptions, "dryRun" | "onPreflight" | "onTransaction">
+  ) {}
+
+  /**
+   * Register the contract with the wallet and return a client for it.
+   */
+  static async connect(options: SecretSantaClientOptions): Promise<SecretSantaClient> {
+    const { wallet, node, contractAddress, account, secretKey, requestPolicy = new RequestPolicy() } = options;
+    const contract = await connectToContract(wallet, contractAddress, node, requestPolicy);
+    let fee: FeeProvider;
+    if (typeof options.fee === "function") {
+      fee = options.fee;
+    } else if (options.fee) {
+      const strategy = options.fee;
+      fee = () => strategy.getFeeOptions(wallet, account);
+    } else {
+      fee = async () => ({ paymentMethod: await getSponsoredPaymentMethod(wallet) });
+    }
+    return new SecretSantaClient(contract, account, wallet, node, secretKey, fee, requestPolicy, options);
+  }
+
+  /**
+   * The receiver slot assigned to a sender slot (a fixed cyclic shift, so
+   * nobody receives from themselves).
+   */
+  static receiverSlotFor(senderSlot: number, participantCount: number): number {
+    return ((senderSlot - 1 + RECEIVER_OFFSET) % participantCount) + 1;
+  }
+
+  get address(): AztecAddress {
+    return this.contract.address;
+  }
+
+  /**
+   * Get a game's phase, counts and claimed slots.
+   */
+  async getState(gameId: number): Promise<GameState> {
+    const state = await getGameState(this.contract, BigInt(gameId), this.account, this.policy);
+    if (state.phase === 0) {
+      throw new GameNotFoundError(`Game #${gameId} does not exist`);
+    }
+    return state;
+  }
+
+  /**
+   * Get a game's phase.
+   */
+  async getPhase(gameId: number): Promise<number> {
+    const phase = Number(
+      await this.policy.run("get_game_phase", () =>
+        this.contract.methods.get_game_phase(BigInt(gameId)).simulate({ from: this.account })
+      )
+    );
+    if (phase === 0) {
+      throw new GameNotFoundError(`Game #${gameId} does not exist`);
+    }
+    return phase;
+  }
+
+  /**
+   * Get the public key a slot's sender registered.
+   */
+  async getSlotEncryptionKey(gameId: number, slot: number): Promise<{ x: bigint; y: bigint; is_infinite: boolean }> {
+    return this.policy.run("get_slot_encryption_key", () =>
+      this.contract.methods.get_slot_encryption_key(BigInt(gameId), BigInt(slot)).simulate({ from: this.account })
+    );
+  }
+
+  /**
+   * Create a game (admin only).
+   */
+  async createGame(minParticipants: number, maxParticipants: number): Promise<CreateGameResult> {
+    if (minParticipants < 3) {
+      throw new InvalidInputError("A game needs at least 3 participants");
+    }
+    if (maxParticipants < minParticipants) {
+      throw new InvalidInputError("Maximum participants must be at least the minimum");
+    }
+
+    const tx = await this.send(
+      this.contract.methods.create_game(minParticipants, maxParticipants),
+      "create_game",
+      (gameId) => `Creates game #${gameId} for ${minParticipants}-${maxParticipants} participants`,
+      (gameId) => Number(gameId),
+      (gameId, receipt) => this.getCreatedGameId(Number(gameId), receipt)
+    );
+    return { ...tx, gameId: Number(tx.dryRun ? tx.preflight.result : tx.result) };
+  }
+
+  /**
+   * Move a game to its next phase (admin only).
+   */
+  async advancePhase(gameId: number): Promise<AdvancePhaseResult> {
+    const previousPhase = await this.getPhase(gameId);
+    if (previousPhase === PHASE.REVEAL) {
+      throw new WrongPhaseError(`Game #${gameId} is already completed`);
+    }
+
+    const tx = await this.send(
+      this.contract.methods.advance_phase(BigInt(gameId)),
+      "advance_phase",
+      () => `Moves game #${gameId} from ${PHASE_NAMES[previousPhase]} to ${PHASE_NAMES[previousPhase + 1]}`,
+      gameId
+    );
+    const phase = tx.dryRun ? previousPhase + 1 : await this.getPhase(gameId);
+    return { ...tx, previousPhase, phase };
+  }
+
+  /**
+   * Enroll the account in a game.
+   */
+  async enroll(gameId: number): Promise<TxResult> {
+    await this.expectPhase(gameId, PHASE.JOIN, "enroll");
+    return this.send(
+      this.contract.methods.enroll(BigInt(gameId)),
+      "enroll",
+      () => `Enrolls ${this.account} in game #${gameId}`,
+      gameId
+    );
+  }
+
+  /**
+   * Register as the sender for a slot, publishing this game's encryption key.
+   */
+  async registerSender(gameId: number, slot: number): Promise<RegisterSenderResult> {
+    const state = await this.getState(gameId);
+    this.checkPhase(gameId, state.phase, PHASE.CLAIM, "register as sender");
+    if (!Number.isInteger(slot) || slot < 1 || slot > state.participantCount) {
+      throw new InvalidSlotError(`Slot must be between 1 and ${state.participantCount}`);
+    }
+    if (state.senderSlots.includes(slot)) {
+      throw new SlotTakenError(`Slot ${slot} is already claimed`);
+    }
+
+    const encryptionKey = await getEncryptionPublicKey(this.requireSecretKey(), this.address, gameId);
+    const tx = await this.send(
+      this.contract.methods.register_as_sender(BigInt(gameId), slot, encryptionKey),
+      "register_as_sender",
+      () => `Registers as sender for slot ${slot} of game #${gameId}`,
+      gameId
+    );
+    return { ...tx, slot, encryptionKey };
+  }
+
+  /**
+   * Claim the receiver slot assigned to a sender slot, leaving a delivery
+   * address only that slot's sender can decrypt.
+   */
+  async claimReceiver(gameId: number, senderSlot: number, deliveryAddress: string): Promise<ClaimReceiverResult> {
+    const state = await this.getState(gameId);
+    this.checkPhase(gameId, state.phase, PHASE.MATCH, "claim as receiver");
+    if (!state.senderSlots.includes(senderSlot)) {
+      throw new InvalidSlotError(`Slot ${senderSlot} has no registered sender`);
+    }
+
+    const receiverSlot = SecretSantaClient.receiverSlotFor(senderSlot, state.participantCount);
+    const senderKey = await this.getSlotEncryptionKey(gameId, receiverSlot);
+
+    let encrypted: [Fr, Fr, Fr, Fr, Fr, Fr, Fr, Fr];
+    try {
+      encrypted = await encryptDeliveryData(deliveryAddress, senderKey);
+    } catch (err: any) {
+      throw new InvalidInputError(err.message, { cause: err });
+    }
+
+    const tx = await this.send(
+      this.contract.methods.claim_receiver(BigInt(gameId), state.participantCount, encrypted),
+      "claim_receiver",
+      () => `Claims receiver slot ${receiverSlot} of game #${gameId}, leaving an encrypted delivery address`,
+      gameId
+    );
+    return { ...tx, senderSlot, receiverSlot };
+  }
+
+  /**
+   * Read and decrypt the delivery address left for a sender slot.
+   */
+  async readDelivery(gameId: number, slot: number): Promise<DeliveryData> {
+    const phase = await this.getPhase(gameId);
+    if (phase < PHASE.MATCH) {
+      throw new WrongPhaseError(`No delivery data yet. Game is in ${PHASE_NAMES[phase]} phase.`);
+    }
+
+    const data = await this.policy.run("get_slot_delivery_data", () =>
+      this.contract.methods.get_slot_delivery_data(BigInt(gameId), BigInt(slot)).simulate({ from: this.account })
+    );
+    const fields = Array.from({ length: 8 }, (_, i) => BigInt(data[i])) as DeliveryFields;
+    if (isEncryptedDataEmpty(fields)) {
+      throw new NoDeliveryDataError(`No delivery data for slot ${slot}`);
+    }
+
+    // Decrypt with the key matching the one the slot published at registration
+    const slotKey = await this.getSlotEncryptionKey(gameId, slot);
+    const key = await resolveDecryptionKey(this.requireSecretKey(), this.address, gameId, slotKey);
+    if (!key) {
+      throw new NotSlotOwnerError(`Slot ${slot} wasn't registered with this account's key`);
+    }
+
+    try {
+      const deliveryAddress = await decryptDeliveryData(fields, key.privateKey);
+      return { slot, deliveryAddress, legacyKey: key.legacy };
+    } catch (err: any) {
+      throw new DecryptionFailedError(`Couldn't decrypt delivery data: ${err.message}`, { cause: err });
+    }
+  }
+
+  /**
+   * Poll a game and yield its changes until the signal aborts.
+   * Polls that fail transiently (e.g. the node is unreachable) are retried
+   * on the next interval; other failures end the watch.
+   */
+  async *watch(gameId: number, options: WatchOptions = {}): AsyncGenerator<GameEvent> {
+    const { intervalMs = DEFAULT_WATCH_INTERVAL_MS, signal } = options;
+    let previous = await this.getState(gameId);
+    yield { type: "state", state: previous };
+
+    while (!signal?.aborted) {
+      await sleep(intervalMs, signal);
+      if (signal?.aborted) return;
+
+      let state: GameState;
+      try {
+        state = await this.getState(gameId);
+      } catch (err) {
+        if (!isTransientError(err)) throw err;
+        continue;
+      }
+      for (const slot of state.senderSlots.filter((s) => !previous.senderSlots.includes(s))) {
+        yield { type: "senderRegistered", slot, state };
+      }
+      for (const slot of state.receiverSlots.filter((s) => !previous.receiverSlots.includes(s))) {
+        yield { type: "receiverClaimed", slot, state };
+      }
+      if (state.phase !== previous.phase) {
+        yield { type: "phaseChanged", from: previous.phase, to: state.phase, state };
+      }
+      previous = state;
+    }
+  }
+
+  /**
+   * Simulate a transaction, then prove and send it unless this is a dry run.
+   * The one simulation also estimates the gas, and `describe` words the
+   * effect from its return value (as can `gameId`, for a new game). Failures from either step are mapped to
+   * typed errors; sent transactions are reported to onTransaction whether
+   * they mined or not. Only the simulation is retried: a send that timed out
+   * may still be mined. `mined` can correct the return value from the mined
+   * block, as the simulation saw an earlier state.
+   */
+  private async send(
+    interaction: ContractFunctionInteraction,
+    method: string,
+    describe: (result: any) => string,
+    game?: number | ((result: any) => number),
+    mined?: (result: any, receipt: TxReceipt) => Promise<unknown>
+  ): Promise<TxResult> {
+    const fee = await this.fee(interaction);
+    let simulation;
+    try {
+      simulation = await this.policy.run(`simulate ${method}`, () =>
+        interaction.simulate({ from: this.account, fee: { ...fee, estimateGas: true } })
+      );
+    } catch (err) {
+      throw toSecretSantaError(err);
+    }
+    const { result, estimatedGas } = simulation;
+    const baseFees = await this.policy.run("getCurrentBaseFees", () => this.node.getCurrentBaseFees());
+    const effect = describe(result);
+    const gameId = typeof game === "function" ? game(result) : game;
+    const preflight: Preflight = {
+      method,
+      effect,
+      result,
+      estimate: { gasLimits: estimatedGas.gasLimits, fee: estimatedGas.gasLimits.computeFee(baseFees).toBigInt() },
+    };
+    this.options.onPreflight?.(preflight);
+    if (this.options.dryRun) {
+      return { dryRun: true, preflight };
+    }
+
+    const sentAt = new Date();
+    const { sendTimeoutMs } = this.policy.settings;
+    const sent = interaction.send({ from: this.account, fee });
+    let receipt: TxReceipt;
+    try {
+      receipt = await this.policy.run(method, () => sent.wait({ timeout: sendTimeoutMs / 1000 }), {
+        retry: false,
+        timeoutMs: sendTimeoutMs,
+      });
+    } catch (err: any) {
+      // Keep a record if it got as far as having a hash (e.g. reverted or dropped),
+      // without waiting out a proof that is still running
+      const txHash = await withTimeout(sent.getTxHash(), TX_HASH_TIMEOUT_MS, "getTxHash").catch(() => undefined);
+      if (txHash) {
+        this.options.onTransaction?.({ method, effect, gameId, txHash: txHash.toString(), sentAt, error: err.message });
+      }
+      if (txHash && isTransientError(err)) {
+        throw new RequestTimeoutError(`Transaction ${txHash} wasn't mined within ${sendTimeoutMs / 1000}s`, {
+          cause: err,
+          hint: "It may still be mined. Look it up by its hash before sending it again.",
+        });
+      }
+      throw toSecretSantaError(err);
+    }
+
+    const durationMs = Date.now() - sentAt.getTime();
+    const txHash = receipt.txHash.toString();
+    // It is mined whatever the lookup says, so fall back to the simulation
+    const minedResult = mined ? await mined(result, receipt).catch(() => result) : result;
+    this.options.onTransaction?.({
+      method,
+      effect: describe(minedResult),
+      gameId: typeof game === "function" ? game(minedResult) : game,
+      txHash,
+      sentAt,
+      receipt,
+    });
+    return { dryRun: false, txHash, durationMs, receipt, result: minedResult };
+  }
+
+  /**
+   * Find the ID of the game a mined create_game made. Public return values
+   * aren't kept on chain, so count the games its block made: if only one,
+   * it is this one, even when another game took the simulated ID first.
+   * With several the simulated ID is kept.
+   */
+  private async getCreatedGameId(simulated: number, receipt: TxReceipt): Promise<number> {
+    if (receipt.blockNumber === undefined) return simulated;
+    const [before, after] = await Promise.all([
+      getNextGameIdAt(this.node, this.contract.address, receipt.blockNumber - 1, this.policy),
+      getNextGameIdAt(this.node, this.contract.address, receipt.blockNumber, this.policy),
+    ]);
+    return after - before === 1 ? before : simulated;
+  }
+
+  private async expectPhase(gameId: number, expected: number, action: string): Promise<void> {
+    this.checkPhase(gameId, await this.getPhase(gameId), expected, action);
+  }
+
+  private checkPhase(gameId: number, phase: number, expected: number, action: string): void {
+    if (phase !== expected) {
+      throw new WrongPhaseError(
+        `Cannot ${action}. Game #${gameId} is in ${PHASE_NAMES[phase] ?? "an unknown"} phase.`
+      );
+    }
+  }
+
+  private requireSecretKey(): Fr {
+    if (!this.secretKey) {
+      throw new Error("This operation needs the account's secretKey in the client options");
+    }
+    return this.secretKey;
+  }
+}
@@ -3,17 +3,96 @@
  *
  * Stores contract address, node URL, and current game ID
  * in a local JSON file for reuse across CLI sessions.
+ *
+ * Settings are grouped into named profiles (e.g. "office", "family")
+ * so several games can be tracked side by side without re-running setup.
+ *
+ * Effective values are resolved in layers, highest precedence first:
+ *   1. Command-line flags (--profile, --sandbox, --node-url, ...)
+ *   2. Environment variables (see CONFIG_ENV_VARS)
+ *   3. Local config file (./.zk-santa.json)
+ *   4. Global config file (~/.zk-santa.json)
+ *   5. Built-in defaults
+ *
+ * Config files carry a schema `version`. Older files are migrated when read
+ * and invalid entries are dropped with a warning; `config doctor` reports
+ * them and rewrites the files.
  */
 
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
-import { join, dirname } from "path";
+import { existsSync, readFileSync, copyFileSync, unlinkSync } from "fs";
+import { join } from "path";
 import { homedir } from "os";
+import { writeFileAtomic, withFileLock } from "./storage.js";
+import { DEFAULT_REQUEST_POLICY } from "./policy.js";
+
+export type NetworkName = "sandbox" | "devnet" | "next-devnet" | "custom";
+
+// How transactions pay for gas (see services/fees.ts)
+export const FEE_MODES = ["sponsored", "fee-juice", "private-fpc", "public-fpc"] as const;
+export type FeeMode = (typeof FEE_MODES)[number];
+
+/**
+ * A game tracked with `games add`, optionally with a human alias.
+ */
+export interface TrackedGame {
+  id: number;
+  alias?: string;
+}
+
+/**
+ * Contract deployment and current game remembered for one network.
+ */
+export interface NetworkDeployment {
+  contractAddress?: string;
+  currentGameId?: number;
+  // Games bookmarked on this contract
+  games?: TrackedGame[];
+  // How the contract was deployed from this profile, to reproduce its address
+  salt?: string;
+  // Zero for universal deployments
+  deployer?: string;
+  deployBlock?: number;
+}
+
+// Fields recorded when this profile deploys the contract
+export type DeploymentDetails = Pick<NetworkDeployment, "salt" | "deployer" | "deployBlock">;
+
+// A game ID or the alias of a tracked game
+export type GameRef = number | string;
+
+/**
+ * How the account secret key is derived from the passphrase.
+ * Version 1 is the legacy padded-passphrase scheme; version 2 is a
+ * memory-hard KDF salted with the player's username.
+ */
+export interface KeyDerivation {
+  version: 1 | 2;
+  // Per-user salt for version 2
+  user?: string;
+}
 
 export interface CLIConfig {
   nodeUrl: string;
-  network: "sandbox" | "devnet" | "next-devnet" | "custom";
+  network: NetworkName;
+  // Resolved from `deployments` for the current network
   contractAddress?: string;
   currentGameId?: number;
+  // Registry of deployments keyed by network (custom endpoints by URL)
+  deployments: Record<string, NetworkDeployment>;
+  // Whether a custom node needs client-side proofs (presets are known)
+  proverEnabled?: boolean;
+  // Passphrase key derivation; legacy when unset (see `wallet migrate`)
+  keyDerivation?: KeyDerivation;
+  // Keystore wallet to sign with (see `wallet use`)
+  wallet?: string;
+  // Fee payment strategy, and the FPC used by the *-fpc modes
+  feeMode?: FeeMode;
+  fpcAddress?: string;
+  // Node call policy: seconds per attempt, attempts per call, and
+  // seconds a sent transaction may take to be mined
+  requestTimeout?: number;
+  maxAttempts?: number;
+  sendTimeout?: number;
 }
 
 // Network presets
@@ -23,81 +102,1313 @@ export const NETWORK_URLS = {
   "next-devnet": "https://next.devnet.aztec-labs.com",
 } as const;
 
-const DEFAULT_CONFIG: CLIConfig = {
+const DEFAULT_CONFIG: Omit<CLIConfig, "deployments"> = {
   nodeUrl: NETWORK_URLS.sandbox,
   network: "sandbox",
+  feeMode: "sponsored",
+  requestTimeout: DEFAULT_REQUEST_POLICY.timeoutMs / 1000,
+  maxAttempts: DEFAULT_REQUEST_POLICY.maxAttempts,
+  sendTimeout: DEFAULT_REQUEST_POLICY.sendTimeoutMs / 1000,
 };
 
-// Config file location - prefer local .zk-santa.json, fallback to ~/.zk-santa.json
+// Node call policy keys, settable by flag for one command
+const REQUEST_POLICY_KEYS = ["requestTimeout", "maxAttempts", "sendTimeout"] as const;
+type RequestPolicyKey = (typeof REQUEST_POLICY_KEYS)[number];
+
+/**
+ * On-disk layout: named profiles plus the one currently in use.
+ * Profiles store their contract addresses and game IDs only in `deployments`.
+ */
+export interface ConfigFile {
+  version: number;
+  activeProfile?: string;
+  profiles: Record<string, Partial<CLIConfig>>;
+}
+
+export const DEFAULT_PROFILE = "default";
+
+// Schema version written to config files; older files are migrated on read
+export const CONFIG_VERSION = 3;
+
+const PROFILE_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+// Aliases can't be all digits, so they never shadow a game ID
+const GAME_ALIAS_PATTERN = /^(?!\d+$)[a-zA-Z0-9_-]+$/;
+
+export const WALLET_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+// Keys that can be read and written with `config get/set/unset`
+export const CONFIG_KEYS = [
+  "network",
+  "nodeUrl",
+  "contractAddress",
+  "currentGameId",
+  "proverEnabled",
+  "feeMode",
+  "fpcAddress",
+  ...REQUEST_POLICY_KEYS,
+] as const;
+export type ConfigKey = (typeof CONFIG_KEYS)[number];
+
+/**
+ * Environment variables layered between flags and config files.
+ * GAME is also accepted for currentGameId for backwards compatibility.
+ */
+export const CONFIG_ENV_VARS = {
+  profile: "ZK_PROFILE",
+  network: "ZK_NETWORK",
+  nodeUrl: "ZK_NODE_URL",
+  contractAddress: "ZK_CONTRACT",
+  currentGameId: "ZK_GAME",
+  proverEnabled: "ZK_PROVER",
+  feeMode: "ZK_FEE_MODE",
+  fpcAddress: "ZK_FPC",
+  requestTimeout: "ZK_REQUEST_TIMEOUT",
+  maxAttempts: "ZK_MAX_ATTEMPTS",
+  sendTimeout: "ZK_SEND_TIMEOUT",
+} as const;
+
+/**
+ * Where an effective config value came from.
+ */
+export interface ConfigSource {
+  layer: "flag" | "env" | "local" | "global" | "default";
+  // The flag, environment variable or file the value was read from
+  detail?: string;
+}
+
+/**
+ * Effective configuration together with the source of each value.
+ */
+export interface ResolvedConfig {
+  profile: string;
+  config: CLIConfig;
+  sources: Record<ConfigKey | "profile", ConfigSource>;
+}
+
+/**
+ * One layer of settings considered during resolution.
+ */
+interface ConfigLayer {
+  source: ConfigSource;
+  values: Partial<CLIConfig>;
+}
+
+// Profile selected with --profile for this session (not persisted)
+let profileOverride: string | null = null;
+
+// Network selected with a flag for this session
+let networkOverride: { network: NetworkName; nodeUrl: string; flag: string } | null = null;
+
+// Fee mode selected with --fee-mode for this session
+let feeModeOverride: FeeMode | null = null;
+
+// Node call policy values selected with flags for this session
+let requestPolicyOverrides: Array<{ key: RequestPolicyKey; value: number; flag: string }> = [];
+
+// Config file locations - local .zk-santa.json overrides ~/.zk-santa.json
 const LOCAL_CONFIG_PATH = join(process.cwd(), ".zk-santa.json");
 const GLOBAL_CONFIG_PATH = join(homedir(), ".zk-santa.json");
 
 /**
- * Get the config file path to use.
- * Prefers local config if it exists, otherwise uses global.
+ * Get the directory for CLI data kept alongside the config
+ * (player journal, keys, caches). Override with ZK_HOME.
+ */
+export function getConfigDir(): string {
+  return process.env.ZK_HOME || join(homedir(), ".zk-santa");
+}
+
+/**
+ * Get the registry key for the network a config points at.
+ * Custom endpoints are keyed by URL so each one keeps its own deployment.
+ */
+export function getDeploymentKey(config: Pick<CLIConfig, "network" | "nodeUrl">): string {
+  return config.network === "custom" ? config.nodeUrl : config.network;
+}
+
+/**
+ * Check whether a string names a known network.
+ */
+export function isNetworkName(value: string): value is NetworkName {
+  return value === "custom" || value in NETWORK_URLS;
+}
+
+/**
+ * Check whether a string names a fee mode.
  */
-function getConfigPath(): string {
-  if (existsSync(LOCAL_CONFIG_PATH)) {
-    return LOCAL_CONFIG_PATH;
+export function isFeeMode(value: string): value is FeeMode {
+  return (FEE_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a string is an http(s) URL.
+ */
+export function isValidNodeUrl(nodeUrl: string): boolean {
+  try {
+    const { protocol } = new URL(nodeUrl);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
   }
-  return GLOBAL_CONFIG_PATH;
 }
 
 /**
- * Load configuration from file.
- * Returns default config if file doesn't exist.
+ * Validate a node URL and strip trailing slashes so registry keys match.
  */
-export function loadConfig(): CLIConfig {
-  const configPath = getConfigPath();
+export function normalizeNodeUrl(nodeUrl: string): string {
+  if (!isValidNodeUrl(nodeUrl)) {
+    throw new Error(`Invalid node URL: ${nodeUrl}`);
+  }
+  return nodeUrl.replace(/\/+$/, "");
+}
+
+/**
+ * Check whether a string is an Aztec address (0x followed by 64 hex characters).
+ */
+export function isValidAddress(value: string): boolean {
+  return /^0x[0-9a-fA-F]{64}$/.test(value);
+}
+
+/**
+ * Parse a game ID, which must be a positive integer.
+ */
+export function parseGameId(value: string | number): number {
+  const gameId = typeof value === "number" ? value : Number(value.trim() || NaN);
+  if (!Number.isInteger(gameId) || gameId < 1) {
+    throw new Error(`Game ID must be a positive integer, got "${value}"`);
+  }
+  return gameId;
+}
+
+/**
+ * Check a node call policy value: a positive number of seconds, or a
+ * whole number of attempts from 1 to 10.
+ */
+function isValidPolicyValue(key: RequestPolicyKey, value: number): boolean {
+  if (key === "maxAttempts") {
+    return Number.isInteger(value) && value >= 1 && value <= 10;
+  }
+  return Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Parse a node call policy value.
+ */
+function parsePolicyValue(key: RequestPolicyKey, value: string): number {
+  const parsed = Number(value.trim() || NaN);
+  if (!isValidPolicyValue(key, parsed)) {
+    const expected = key === "maxAttempts" ? "a whole number from 1 to 10" : "a positive number of seconds";
+    throw new Error(`${key} must be ${expected}, got "${value}"`);
+  }
+  return parsed;
+}
 
+/**
+ * Bring a stored profile up to the current layout.
+ * Pre-registry profiles kept one contractAddress/currentGameId at the top
+ * level; those are moved under the network that was active at the time.
+ */
+function normalizeStoredProfile(stored: Partial<CLIConfig>): Partial<CLIConfig> {
+  const { contractAddress, currentGameId, deployments: storedDeployments, ...rest } = stored;
+  const key = getDeploymentKey({ ...DEFAULT_CONFIG, ...rest });
+
+  const deployments = { ...storedDeployments };
+  if (!deployments[key] && (contractAddress || currentGameId !== undefined)) {
+    deployments[key] = { contractAddress, currentGameId };
+  }
+
+  return { ...rest, deployments };
+}
+
+/**
+ * Schema migrations, applied in order to files older than CONFIG_VERSION.
+ * Files written before versioning have no `version` field and are detected
+ * by shape: a flat config is version 1, a profiles map is version 2.
+ */
+const MIGRATIONS: Array<{
+  version: number;
+  description: string;
+  migrate: (raw: Record<string, unknown>) => Record<string, unknown>;
+}> = [
+  {
+    version: 2,
+    description: "move settings into the default profile",
+    migrate: (raw) => ({ profiles: { [DEFAULT_PROFILE]: raw } }),
+  },
+  {
+    version: 3,
+    description: "key contract addresses and game IDs by network",
+    migrate: (raw) => ({
+      ...raw,
+      profiles: Object.fromEntries(
+        Object.entries(isPlainObject(raw.profiles) ? raw.profiles : {}).map(([name, profile]) => [
+          name,
+          isPlainObject(profile) ? normalizeStoredProfile(profile) : profile,
+        ])
+      ),
+    }),
+  },
+];
+
+/**
+ * A problem found while validating a config file, and how it is fixed.
+ */
+export interface ConfigIssue {
+  // Dotted path of the offending entry, e.g. "profiles.office.nodeUrl"
+  path: string;
+  problem: string;
+  fix: string;
+}
+
+/**
+ * Result of reading and validating one config file.
+ */
+export interface ConfigFileReport {
+  path: string;
+  exists: boolean;
+  // Validated contents; null if the file is missing or unreadable
+  file: ConfigFile | null;
+  // Schema version found on disk
+  version?: number;
+  // Migrations applied to bring the file up to CONFIG_VERSION
+  migrations: string[];
+  issues: ConfigIssue[];
+  // Set when the file can't be used at all (bad JSON, newer schema)
+  error?: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate one network's deployment, dropping invalid fields.
+ */
+function sanitizeDeployment(raw: unknown, path: string, issues: ConfigIssue[]): NetworkDeployment {
+  const deployment: NetworkDeployment = {};
+  if (!isPlainObject(raw)) {
+    issues.push({ path, problem: "is not an object", fix: "removed" });
+    return deployment;
+  }
+
+  for (const [field, value] of Object.entries(raw)) {
+    const fieldPath = `${path}.${field}`;
+    if (value === undefined) continue;
+    if (field === "contractAddress") {
+      if (typeof value === "string" && isValidAddress(value)) {
+        deployment.contractAddress = value;
+      } else {
+        issues.push({ path: fieldPath, problem: `invalid address ${JSON.stringify(value)}`, fix: "removed" });
+      }
+    } else if (field === "currentGameId") {
+      try {
+        deployment.currentGameId = parseGameId(value);
+        if (typeof value !== "number") {
+          issues.push({ path: fieldPath, problem: `stored as ${typeof value}`, fix: `converted to ${deployment.currentGameId}` });
+        }
+      } catch {
+        issues.push({ path: fieldPath, problem: `invalid game ID ${JSON.stringify(value)}`, fix: "removed" });
+      }
+    } else if (field === "games") {
+      deployment.games = sanitizeTrackedGames(value, fieldPath, issues);
+    } else if (field === "salt") {
+      if (typeof value === "string" && /^0x[0-9a-fA-F]{1,64}$/.test(value)) {
+        deployment.salt = value;
+      } else {
+        issues.push({ path: fieldPath, problem: `invalid salt ${JSON.stringify(value)}`, fix: "removed" });
+      }
+    } else if (field === "deployer") {
+      if (typeof value === "string" && isValidAddress(value)) {
+        deployment.deployer = value;
+      } else {
+        issues.push({ path: fieldPath, problem: `invalid address ${JSON.stringify(value)}`, fix: "removed" });
+      }
+    } else if (field === "deployBlock") {
+      if (Number.isInteger(value) && value >= 0) {
+        deployment.deployBlock = value;
+      } else {
+        issues.push({ path: fieldPath, problem: `invalid block number ${JSON.stringify(value)}`, fix: "removed" });
+      }
+    } else {
+      issues.push({ path: fieldPath, problem: "unknown field", fix: "removed" });
+    }
+  }
+
+  return deployment;
+}
+
+/**
+ * Validate a list of tracked games, dropping invalid and duplicate entries.
+ */
+function sanitizeTrackedGames(raw: unknown, path: string, issues: ConfigIssue[]): TrackedGame[] {
+  if (!Array.isArray(raw)) {
+    issues.push({ path, problem: "is not a list", fix: "removed" });
+    return [];
+  }
+
+  const games: TrackedGame[] = [];
+  raw.forEach((entry, index) => {
+    const entryPath = `${path}.${index}`;
+    let id: number;
+    try {
+      id = parseGameId(entry?.id);
+    } catch {
+      issues.push({ path: entryPath, problem: `invalid game ID ${JSON.stringify(entry?.id)}`, fix: "removed" });
+      return;
+    }
+    if (games.some((game) => game.id === id)) {
+      issues.push({ path: entryPath, problem: `game #${id} is listed twice`, fix: "removed" });
+      return;
+    }
+
+    const game: TrackedGame = { id };
+    if (entry.alias !== undefined) {
+      if (typeof entry.alias !== "string" || !GAME_ALIAS_PATTERN.test(entry.alias)) {
+        issues.push({ path: `${entryPath}.alias`, problem: `invalid alias ${JSON.stringify(entry.alias)}`, fix: "removed" });
+      } else if (games.some((other) => other.alias === entry.alias)) {
+        issues.push({ path: `${entryPath}.alias`, problem: `alias "${entry.alias}" is used twice`, fix: "removed" });
+      } else {
+        game.alias = entry.alias;
+      }
+    }
+    games.push(game);
+  });
+
+  return games;
+}
+
+/**
+ * Validate one stored profile, dropping invalid and unknown fields.
+ */
+function sanitizeProfile(raw: Record<string, any>, path: string, issues: ConfigIssue[]): Partial<CLIConfig> {
+  const profile: Partial<CLIConfig> = {};
+
+  for (const [field, value] of Object.entries(raw)) {
+    const fieldPath = `${path}.${field}`;
+    switch (field) {
+      case "network":
+        if (typeof value === "string" && isNetworkName(value)) {
+          profile.network = value;
+        } else {
+          issues.push({ path: fieldPath, problem: `unknown network ${JSON.stringify(value)}`, fix: "removed" });
+        }
+        break;
+      case "nodeUrl":
+        if (typeof value === "string" && isValidNodeUrl(value)) {
+          profile.nodeUrl = normalizeNodeUrl(value);
+        } else {
+          issues.push({ path: fieldPath, problem: `invalid URL ${JSON.stringify(value)}`, fix: "removed" });
+        }
+        break;
+      case "proverEnabled":
+        if (typeof value === "boolean") {
+          profile.proverEnabled = value;
+        } else {
+          issues.push({ path: fieldPath, problem: `expected true or false, got ${JSON.stringify(value)}`, fix: "removed" });
+        }
+        break;
+      case "keyDerivation":
+        if (isPlainObject(value) && value.version === 1 && Object.keys(value).length === 1) {
+          profile.keyDerivation = { version: 1 };
+        } else if (isPlainObject(value) && value.version === 2 && typeof value.user === "string" && value.user.trim()) {
+          profile.keyDerivation = { version: 2, user: value.user };
+        } else {
+          issues.push({ path: fieldPath, problem: `invalid key derivation ${JSON.stringify(value)}`, fix: "removed" });
+        }
+        break;
+      case "feeMode":
+        if (typeof value === "string" && isFeeMode(value)) {
+          profile.feeMode = value;
+        } else {
+          issues.push({ path: fieldPath, problem: `unknown fee mode ${JSON.stringify(value)}`, fix: "removed" });
+        }
+        break;
+      case "fpcAddress":
+        if (typeof value === "string" && isValidAddress(value)) {
+          profile.fpcAddress = value;
+        } else {
+          issues.push({ path: fieldPath, problem: `invalid address ${JSON.stringify(value)}`, fix: "removed" });
+        }
+        break;
+      case "requestTimeout":
+      case "maxAttempts":
+      case "sendTimeout":
+        if (typeof value === "number" && isValidPolicyValue(field, value)) {
+          profile[field] = value;
+        } else {
+          issues.push({ path: fieldPath, problem: `invalid ${field} ${JSON.stringify(value)}`, fix: "removed" });
+        }
+        break;
+      case "wallet":
+        if (typeof value === "string" && WALLET_NAME_PATTERN.test(value)) {
+          profile.wallet = value;
+        } else {
+          issues.push({ path: fieldPath, problem: `invalid wallet name ${JSON.stringify(value)}`, fix: "removed" });
+        }
+        break;
+      case "deployments":
+        if (!isPlainObject(value)) {
+          issues.push({ path: fieldPath, problem: "is not an object", fix: "removed" });
+          break;
+        }
+        profile.deployments = {};
+        for (const [key, entry] of Object.entries(value)) {
+          const entryPath = `${fieldPath}.${key}`;
+          if (!(key in NETWORK_URLS) && !isValidNodeUrl(key)) {
+            issues.push({ path: entryPath, problem: "is neither a network nor a node URL", fix: "removed" });
+            continue;
+          }
+          const deployment = sanitizeDeployment(entry, entryPath, issues);
+          if (Object.keys(deployment).length > 0) {
+            profile.deployments[key] = deployment;
+          }
+        }
+        break;
+      case "contractAddress":
+      case "currentGameId":
+        // Hand-edited files may still use the pre-registry layout
+        break;
+      default:
+        issues.push({ path: fieldPath, problem: "unknown field", fix: "removed" });
+    }
+  }
+
+  if (profile.network === "custom" && !profile.nodeUrl) {
+    issues.push({ path: `${path}.network`, problem: "custom network without a nodeUrl", fix: "removed" });
+    delete profile.network;
+  }
+
+  // Move top-level fields under the profile's network, validating them there
+  const { contractAddress, currentGameId } = raw;
+  if (contractAddress !== undefined || currentGameId !== undefined) {
+    const key = getDeploymentKey({ ...DEFAULT_CONFIG, ...profile });
+    const deployments = { ...profile.deployments };
+    if (deployments[key]) {
+      issues.push({ path, problem: `has contract/game outside deployments that duplicate deployments.${key}`, fix: "removed" });
+    } else {
+      const deployment = sanitizeDeployment({ contractAddress, currentGameId }, path, issues);
+      if (Object.keys(deployment).length > 0) {
+        deployments[key] = deployment;
+        issues.push({ path, problem: "has contract/game outside deployments", fix: `moved to deployments.${key}` });
+      }
+    }
+    profile.deployments = deployments;
+  }
+
+  profile.deployments ??= {};
+  return profile;
+}
+
+/**
+ * Validate a migrated config file, dropping anything later commands can't use.
+ */
+function sanitizeConfigFile(raw: Record<string, any>, issues: ConfigIssue[]): ConfigFile {
+  const file: ConfigFile = { version: CONFIG_VERSION, profiles: {} };
+
+  for (const field of Object.keys(raw)) {
+    if (!["version", "activeProfile", "profiles"].includes(field)) {
+      issues.push({ path: field, problem: "unknown field", fix: "removed" });
+    }
+  }
+
+  if (!isPlainObject(raw.profiles)) {
+    issues.push({ path: "profiles", problem: "is not an object", fix: "reset to empty" });
+  } else {
+    for (const [name, profile] of Object.entries(raw.profiles)) {
+      const path = `profiles.${name}`;
+      if (!PROFILE_NAME_PATTERN.test(name)) {
+        issues.push({ path, problem: "invalid profile name", fix: "removed" });
+      } else if (!isPlainObject(profile)) {
+        issues.push({ path, problem: "is not an object", fix: "removed" });
+      } else {
+        file.profiles[name] = sanitizeProfile(profile, path, issues);
+      }
+    }
+  }
+
+  const { activeProfile } = raw;
+  if (activeProfile !== undefined) {
+    if (typeof activeProfile !== "string" || !PROFILE_NAME_PATTERN.test(activeProfile)) {
+      issues.push({ path: "activeProfile", problem: `invalid profile name ${JSON.stringify(activeProfile)}`, fix: "removed" });
+    } else {
+      file.activeProfile = activeProfile;
+    }
+  }
+
+  return file;
+}
+
+/**
+ * Read, migrate and validate a config file without side effects.
+ */
+export function inspectConfigFile(configPath: string): ConfigFileReport {
+  const report: ConfigFileReport = { path: configPath, exists: existsSync(configPath), file: null, migrations: [], issues: [] };
+  if (!report.exists) return report;
+
+  let parsed: unknown;
   try {
-    if (existsSync(configPath)) {
-      const content = readFileSync(configPath, "utf-8");
-      const loaded = JSON.parse(content);
-      return { ...DEFAULT_CONFIG, ...loaded };
+    parsed = JSON.parse(readFileSync(configPath, "utf-8"));
+  } catch (error: any) {
+    report.error = `is not valid JSON (${error.message})`;
+    return report;
+  }
+  if (!isPlainObject(parsed)) {
+    report.error = "is not a JSON object";
+    return report;
+  }
+
+  let raw: Record<string, unknown> = parsed;
+
+  const version = typeof raw.version === "number" ? raw.version : raw.profiles ? 2 : 1;
+  report.version = version;
+  if (version > CONFIG_VERSION) {
+    report.error = `was written by a newer CLI (schema version ${version}, this CLI supports ${CONFIG_VERSION})`;
+    return report;
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (version < migration.version) {
+      raw = migration.migrate(raw);
+      report.migrations.push(`v${migration.version}: ${migration.description}`);
     }
+  }
+
+  report.file = sanitizeConfigFile(raw, report.issues);
+  return report;
+}
+
+// Files already warned about in this process
+const warnedConfigPaths = new Set<string>();
+
+/**
+ * Read a config file for resolving settings, migrating older layouts.
+ * Invalid entries are dropped with a warning pointing at `config doctor`.
+ * Returns null if the file doesn't exist or can't be used.
+ */
+function readConfigFile(configPath: string): ConfigFile | null {
+  const report = inspectConfigFile(configPath);
+  const count = report.issues.length;
+  const problem = report.error ?? (count > 0 ? `has ${count} invalid ${count === 1 ? "entry" : "entries"}` : null);
+  if (problem && !warnedConfigPaths.has(configPath)) {
+    warnedConfigPaths.add(configPath);
+    console.warn(`Warning: Config ${configPath} ${problem}. Run 'yarn cli config doctor' for details.`);
+  }
+  return report.file;
+}
+
+/**
+ * Read a config file that is about to be rewritten.
+ * Refuses files that can't be parsed so they aren't silently replaced.
+ */
+function readConfigFileForWrite(configPath: string): ConfigFile {
+  const report = inspectConfigFile(configPath);
+  if (report.error) {
+    throw new Error(`Config ${configPath} ${report.error}. Run 'yarn cli config doctor --fix' first.`);
+  }
+  return report.file ?? { version: CONFIG_VERSION, profiles: {} };
+}
+
+/**
+ * Write a whole config file at the current schema version.
+ */
+function writeConfigFile(configPath: string, file: ConfigFile): void {
+  const { activeProfile, profiles } = file;
+  try {
+    writeFileAtomic(configPath, JSON.stringify({ version: CONFIG_VERSION, activeProfile, profiles }, null, 2));
   } catch (error) {
-    console.warn(`Warning: Could not load config from ${configPath}`);
+    throw new Error(`Failed to save config to ${configPath}: ${error}`);
   }
+}
 
-  return { ...DEFAULT_CONFIG };
+/**
+ * Read, modify and write a config file under its lock.
+ */
+function modifyConfigFile<T>(configPath: string, modify: (file: ConfigFile) => T): T {
+  return withFileLock(configPath, () => {
+    const file = readConfigFileForWrite(configPath);
+    const result = modify(file);
+    writeConfigFile(configPath, file);
+    return result;
+  });
+}
+
+/**
+ * Get the file layers that exist, highest precedence first.
+ */
+function readFileLayers(): Array<{ source: ConfigSource; file: ConfigFile }> {
+  const layers: Array<{ source: ConfigSource; file: ConfigFile }> = [];
+
+  const local = readConfigFile(LOCAL_CONFIG_PATH);
+  if (local) layers.push({ source: { layer: "local", detail: LOCAL_CONFIG_PATH }, file: local });
+
+  const global = readConfigFile(GLOBAL_CONFIG_PATH);
+  if (global) layers.push({ source: { layer: "global", detail: GLOBAL_CONFIG_PATH }, file: global });
+
+  return layers;
 }
 
 /**
- * Save configuration to file.
+ * Build the flag and environment layers for this session.
+ */
+function readOverrideLayers(): ConfigLayer[] {
+  const layers: ConfigLayer[] = [];
+
+  if (networkOverride) {
+    layers.push({
+      source: { layer: "flag", detail: networkOverride.flag },
+      values: { network: networkOverride.network, nodeUrl: networkOverride.nodeUrl },
+    });
+  }
+  if (feeModeOverride) {
+    layers.push({ source: { layer: "flag", detail: "--fee-mode" }, values: { feeMode: feeModeOverride } });
+  }
+  for (const { key, value, flag } of requestPolicyOverrides) {
+    layers.push({ source: { layer: "flag", detail: flag }, values: { [key]: value } });
+  }
+
+  const env: Partial<CLIConfig> = {};
+  const envNetwork = process.env[CONFIG_ENV_VARS.network];
+  const envNodeUrl = process.env[CONFIG_ENV_VARS.nodeUrl];
+  if (envNetwork) {
+    if (!isNetworkName(envNetwork)) {
+      throw new Error(`${CONFIG_ENV_VARS.network} must be one of: ${Object.keys(NETWORK_URLS).join(", ")}, custom`);
+    }
+    env.network = envNetwork;
+  }
+  if (envNodeUrl) {
+    env.nodeUrl = normalizeNodeUrl(envNodeUrl);
+    // A node URL on its own means a custom endpoint
+    env.network ??= "custom";
+  }
+
+  const envContract = process.env[CONFIG_ENV_VARS.contractAddress];
+  if (envContract) {
+    if (!isValidAddress(envContract)) {
+      throw new Error(`${CONFIG_ENV_VARS.contractAddress} is not a valid address: ${envContract}`);
+    }
+    env.contractAddress = envContract;
+  }
+
+  const envGame = process.env[CONFIG_ENV_VARS.currentGameId] ?? process.env.GAME;
+  if (envGame) env.currentGameId = parseGameId(envGame);
+
+  const envProver = process.env[CONFIG_ENV_VARS.proverEnabled];
+  if (envProver) env.proverEnabled = parseBoolean(envProver);
+
+  const envFeeMode = process.env[CONFIG_ENV_VARS.feeMode];
+  if (envFeeMode) env.feeMode = parseFeeMode(envFeeMode);
+
+  const envFpc = process.env[CONFIG_ENV_VARS.fpcAddress];
+  if (envFpc) {
+    if (!isValidAddress(envFpc)) {
+      throw new Error(`${CONFIG_ENV_VARS.fpcAddress} is not a valid address: ${envFpc}`);
+    }
+    env.fpcAddress = envFpc;
+  }
+
+  for (const key of REQUEST_POLICY_KEYS) {
+    const envValue = process.env[CONFIG_ENV_VARS[key]];
+    if (envValue) env[key] = parsePolicyValue(key, envValue);
+  }
+
+  if (Object.keys(env).length > 0) {
+    layers.push({ source: { layer: "env" }, values: env });
+  }
+
+  return layers;
+}
+
+/**
+ * Name the environment variable that supplied a key, for source reporting.
+ */
+function envVarFor(key: ConfigKey): string {
+  if (key === "currentGameId" && !process.env[CONFIG_ENV_VARS.currentGameId]) {
+    return "GAME";
+  }
+  if (key === "network" && !process.env[CONFIG_ENV_VARS.network]) {
+    return CONFIG_ENV_VARS.nodeUrl;
+  }
+  return CONFIG_ENV_VARS[key];
+}
+
+/**
+ * Resolve a profile's effective values across the given layers.
+ * Layers are ordered highest precedence first.
+ */
+function resolveLayers(
+  overrideLayers: ConfigLayer[],
+  fileLayers: Array<{ source: ConfigSource; file: ConfigFile }>,
+  profile: string
+): { config: CLIConfig; sources: Record<ConfigKey, ConfigSource> } {
+  const layers: ConfigLayer[] = [
+    ...overrideLayers,
+    ...fileLayers.map(({ source, file }) => ({ source, values: file.profiles[profile] ?? {} })),
+    { source: { layer: "default" }, values: DEFAULT_CONFIG },
+  ];
+
+  const pick = <K extends keyof CLIConfig>(key: K): { index: number; value: CLIConfig[K] | undefined } => {
+    const index = layers.findIndex((layer) => layer.values[key] !== undefined);
+    return { index, value: index >= 0 ? (layers[index].values[key] as CLIConfig[K]) : undefined };
+  };
+  const sourceOf = (index: number, key: ConfigKey): ConfigSource => {
+    if (index < 0) return { layer: "default" };
+    const source = layers[index].source;
+    return source.layer === "env" ? { layer: "env", detail: envVarFor(key) } : source;
+  };
+
+  const network = pick("network");
+  let nodeUrl = pick("nodeUrl");
+  let nodeUrlSource = sourceOf(nodeUrl.index, "nodeUrl");
+  // A preset network chosen above the node URL brings its own URL
+  if (network.index < nodeUrl.index && network.value !== "custom") {
+    nodeUrl = { index: network.index, value: NETWORK_URLS[network.value as keyof typeof NETWORK_URLS] };
+    nodeUrlSource = sourceOf(network.index, "network");
+  }
+  const proverEnabled = pick("proverEnabled");
+  const keyDerivation = pick("keyDerivation");
+  const wallet = pick("wallet");
+  const feeMode = pick("feeMode");
+  const fpcAddress = pick("fpcAddress");
+  const requestTimeout = pick("requestTimeout");
+  const maxAttempts = pick("maxAttempts");
+  const sendTimeout = pick("sendTimeout");
+
+  // Merge the registries, higher file layers overriding per network
+  const deployments: Record<string, NetworkDeployment> = {};
+  for (const { file } of [...fileLayers].reverse()) {
+    for (const [key, deployment] of Object.entries(file.profiles[profile]?.deployments ?? {})) {
+      deployments[key] = { ...deployments[key], ...deployment };
+    }
+  }
+
+  const key = getDeploymentKey({ network: network.value!, nodeUrl: nodeUrl.value! });
+  const pickDeployment = <K extends "contractAddress" | "currentGameId">(field: K): { index: number; value: NetworkDeployment[K] } => {
+    const index = layers.findIndex((layer) =>
+      layer.values[field] !== undefined || layer.values.deployments?.[key]?.[field] !== undefined
+    );
+    if (index < 0) return { index, value: undefined };
+    const values = layers[index].values;
+    return { index, value: (values[field] ?? values.deployments?.[key]?.[field]) as NetworkDeployment[K] };
+  };
+  const contractAddress = pickDeployment("contractAddress");
+  const currentGameId = pickDeployment("currentGameId");
+
+  return {
+    config: {
+      network: network.value!,
+      nodeUrl: nodeUrl.value!,
+      proverEnabled: proverEnabled.value,
+      keyDerivation: keyDerivation.value,
+      wallet: wallet.value,
+      feeMode: feeMode.value,
+      fpcAddress: fpcAddress.value,
+      requestTimeout: requestTimeout.value,
+      maxAttempts: maxAttempts.value,
+      sendTimeout: sendTimeout.value,
+      contractAddress: contractAddress.value,
+      currentGameId: currentGameId.value,
+      deployments,
+    },
+    sources: {
+      network: sourceOf(network.index, "network"),
+      nodeUrl: nodeUrlSource,
+      proverEnabled: sourceOf(proverEnabled.index, "proverEnabled"),
+      feeMode: sourceOf(feeMode.index, "feeMode"),
+      fpcAddress: sourceOf(fpcAddress.index, "fpcAddress"),
+      requestTimeout: sourceOf(requestTimeout.index, "requestTimeout"),
+      maxAttempts: sourceOf(maxAttempts.index, "maxAttempts"),
+      sendTimeout: sourceOf(sendTimeout.index, "sendTimeout"),
+      contractAddress: sourceOf(contractAddress.index, "contractAddress"),
+      currentGameId: sourceOf(currentGameId.index, "currentGameId"),
+    },
+  };
+}
+
+/**
+ * Resolve the effective configuration and where each value came from.
+ */
+export function resolveConfig(): ResolvedConfig {
+  const fileLayers = readFileLayers();
+  const overrideLayers = readOverrideLayers();
+
+  // Pick the profile: --profile > ZK_PROFILE > activeProfile in files
+  let profile = DEFAULT_PROFILE;
+  let profileSource: ConfigSource = { layer: "default" };
+  const envProfile = process.env[CONFIG_ENV_VARS.profile];
+  if (profileOverride) {
+    profile = profileOverride;
+    profileSource = { layer: "flag", detail: "--profile" };
+  } else if (envProfile) {
+    profile = envProfile;
+    profileSource = { layer: "env", detail: CONFIG_ENV_VARS.profile };
+  } else {
+    const layer = fileLayers.find(({ file }) => file.activeProfile);
+    if (layer) {
+      profile = layer.file.activeProfile!;
+      profileSource = layer.source;
+    }
+  }
+
+  const exists = fileLayers.some(({ file }) => file.profiles[profile]);
+  if (!exists && profile !== DEFAULT_PROFILE) {
+    throw new Error(`Profile "${profile}" does not exist. Run 'yarn cli profile create ${profile}' first.`);
+  }
+
+  const { config, sources } = resolveLayers(overrideLayers, fileLayers, profile);
+  return { profile, config, sources: { ...sources, profile: profileSource } };
+}
+
+/**
+ * Describe a config source for display.
+ */
+export function formatConfigSource(source: ConfigSource): string {
+  switch (source.layer) {
+    case "flag":
+      return `flag ${source.detail}`;
+    case "env":
+      return `env ${source.detail}`;
+    case "local":
+      return `local file ${source.detail}`;
+    case "global":
+      return `global file ${source.detail}`;
+    default:
+      return "default";
+  }
+}
+
+/**
+ * Select a profile for this session only (from the --profile flag).
+ */
+export function setProfileOverride(name: string | null): void {
+  profileOverride = name;
+}
+
+/**
+ * Select a network for this session only (from a network flag).
+ * Flags take precedence over environment variables and config files.
+ */
+export function setNetworkOverride(network: NetworkName, nodeUrl: string, flag: string): void {
+  networkOverride = { network, nodeUrl, flag };
+}
+
+/**
+ * Select a fee mode for this session only (from the --fee-mode flag).
+ */
+export function setFeeModeOverride(mode: string): void {
+  feeModeOverride = parseFeeMode(mode);
+}
+
+/**
+ * Set a node call policy value for this session only (from a flag).
+ */
+export function setRequestPolicyOverride(key: RequestPolicyKey, value: string, flag: string): void {
+  const parsed = parsePolicyValue(key, value);
+  requestPolicyOverrides = [...requestPolicyOverrides.filter((o) => o.key !== key), { key, value: parsed, flag }];
+}
+
+/**
+ * Selections made with flags for this session.
+ */
+export interface ConfigOverrides {
+  profile: string | null;
+  network: { network: NetworkName; nodeUrl: string; flag: string } | null;
+  feeMode: FeeMode | null;
+  requestPolicy: Array<{ key: RequestPolicyKey; value: number; flag: string }>;
+}
+
+/**
+ * Get the selections made with flags so far, to restore them later.
+ */
+export function getConfigOverrides(): ConfigOverrides {
+  return {
+    profile: profileOverride,
+    network: networkOverride,
+    feeMode: feeModeOverride,
+    requestPolicy: requestPolicyOverrides,
+  };
+}
+
+/**
+ * Go back to selections taken with getConfigOverrides, e.g. the shell's
+ * own before each of its commands, so one command's flags don't outlive it.
+ */
+export function restoreConfigOverrides(overrides: ConfigOverrides): void {
+  profileOverride = overrides.profile;
+  networkOverride = overrides.network;
+  feeModeOverride = overrides.feeMode;
+  requestPolicyOverrides = overrides.requestPolicy;
+}
+
+/**
+ * Get the name of the profile in use.
+ * Priority: --profile flag > ZK_PROFILE > activeProfile in config files
+ */
+export function getActiveProfileName(): string {
+  return resolveConfig().profile;
+}
+
+/**
+ * Load configuration for the active profile.
+ * Returns default config if no config file exists.
+ */
+export function loadConfig(): CLIConfig {
+  return resolveConfig().config;
+}
+
+/**
+ * Check whether a deployment has nothing worth keeping.
+ */
+function isEmptyDeployment(deployment: NetworkDeployment): boolean {
+  return deployment.contractAddress === undefined && deployment.currentGameId === undefined && !deployment.games?.length;
+}
+
+/**
+ * Convert a config to its stored form, recording the contract address
+ * and game ID under the current network.
+ */
+function toStoredProfile(config: CLIConfig): Partial<CLIConfig> {
+  const { contractAddress, currentGameId, deployments, ...rest } = config;
+  const key = getDeploymentKey(config);
+
+  const updated = { ...deployments };
+  const deployment = { ...updated[key], contractAddress, currentGameId };
+  if (isEmptyDeployment(deployment)) {
+    delete updated[key];
+  } else {
+    updated[key] = deployment;
+  }
+
+  return { ...rest, deployments: updated };
+}
+
+/**
+ * Save configuration as the active profile.
  * Saves to local config path by default.
  */
 export function saveConfig(config: CLIConfig, useGlobal: boolean = false): void {
   const configPath = useGlobal ? GLOBAL_CONFIG_PATH : LOCAL_CONFIG_PATH;
+  modifyConfigFile(configPath, (file) => {
+    file.profiles[getActiveProfileName()] = toStoredProfile(config);
+  });
+}
 
-  try {
-    // Ensure directory exists
-    const dir = dirname(configPath);
-    if (!existsSync(dir)) {
-      mkdirSync(dir, { recursive: true });
+/**
+ * Update specific config values without overwriting everything.
+ * Only the given keys are written to the file; other layers are untouched.
+ * Contract address and game ID are recorded under the effective network.
+ * Setting a key to undefined removes it from the file.
+ *
+ * Pass a function to compute updates from the current config; it runs while
+ * the file is locked, so read-modify-write updates (e.g. incrementing the
+ * game ID) are safe across concurrent processes.
+ */
+export function updateConfig(
+  updates: Partial<CLIConfig> | ((current: CLIConfig) => Partial<CLIConfig>),
+  useGlobal: boolean = false
+): CLIConfig {
+  const configPath = useGlobal ? GLOBAL_CONFIG_PATH : LOCAL_CONFIG_PATH;
+  modifyConfigFile(configPath, (file) => {
+    const { profile, config: current } = resolveConfig();
+    const changes = typeof updates === "function" ? updates(current) : updates;
+    file.profiles[profile] = applyUpdates(file.profiles[profile], current, changes);
+  });
+  return loadConfig();
+}
+
+/**
+ * Apply config updates to a stored profile.
+ */
+function applyUpdates(
+  profile: Partial<CLIConfig> | undefined,
+  current: CLIConfig,
+  updates: Partial<CLIConfig>
+): Partial<CLIConfig> {
+  const stored: Partial<CLIConfig> = { ...profile };
+
+  if ("network" in updates) stored.network = updates.network;
+  if ("nodeUrl" in updates) stored.nodeUrl = updates.nodeUrl;
+  if ("proverEnabled" in updates) stored.proverEnabled = updates.proverEnabled;
+  if ("keyDerivation" in updates) stored.keyDerivation = updates.keyDerivation;
+  if ("wallet" in updates) stored.wallet = updates.wallet;
+  if ("feeMode" in updates) stored.feeMode = updates.feeMode;
+  if ("fpcAddress" in updates) stored.fpcAddress = updates.fpcAddress;
+  for (const key of REQUEST_POLICY_KEYS) {
+    if (key in updates) stored[key] = updates[key];
+  }
+
+  if ("contractAddress" in updates || "currentGameId" in updates) {
+    const key = getDeploymentKey({ ...current, ...updates });
+    const deployment: NetworkDeployment = { ...stored.deployments?.[key] };
+    if ("contractAddress" in updates) {
+      // Tracked games and deployment details belong to the old contract
+      if (updates.contractAddress !== current.contractAddress) {
+        delete deployment.games;
+        delete deployment.salt;
+        delete deployment.deployer;
+        delete deployment.deployBlock;
+      }
+      deployment.contractAddress = updates.contractAddress;
     }
+    if ("currentGameId" in updates) deployment.currentGameId = updates.currentGameId;
 
-    writeFileSync(configPath, JSON.stringify(config, null, 2), "utf-8");
-  } catch (error) {
-    throw new Error(`Failed to save config to ${configPath}: ${error}`);
+    const deployments = { ...stored.deployments };
+    if (isEmptyDeployment(deployment)) {
+      delete deployments[key];
+    } else {
+      deployments[key] = deployment;
+    }
+    stored.deployments = deployments;
   }
+
+  return stored;
 }
 
 /**
- * Update specific config values without overwriting everything.
+ * Save a contract this profile just deployed, with the salt, deployer and
+ * block needed to reproduce or scan it, as the current network's contract.
  */
-export function updateConfig(updates: Partial<CLIConfig>): CLIConfig {
-  const current = loadConfig();
-  const updated = { ...current, ...updates };
-  saveConfig(updated);
-  return updated;
+export function saveDeployedContract(contractAddress: string, details: DeploymentDetails): CLIConfig {
+  modifyConfigFile(LOCAL_CONFIG_PATH, (file) => {
+    const { profile, config: current } = resolveConfig();
+    const stored = applyUpdates(file.profiles[profile], current, { contractAddress });
+    const key = getDeploymentKey(current);
+    stored.deployments = { ...stored.deployments, [key]: { ...stored.deployments?.[key], ...details } };
+    file.profiles[profile] = stored;
+  });
+  return loadConfig();
 }
 
 /**
- * Clear the current configuration file.
+ * Clear the configuration of the active profile in the local file.
  */
 export function clearConfig(): void {
-  saveConfig(DEFAULT_CONFIG);
+  modifyConfigFile(LOCAL_CONFIG_PATH, (file) => {
+    file.profiles[getActiveProfileName()] = {};
+  });
+}
+
+/**
+ * Check both config files and the environment for problems.
+ * A default profile that no file defines is reported against the file
+ * that selects it, so repairing that file resets the selection.
+ */
+export function diagnoseConfig(): { files: ConfigFileReport[]; overrides: ConfigIssue[] } {
+  const files = [LOCAL_CONFIG_PATH, GLOBAL_CONFIG_PATH].map(inspectConfigFile);
+  const overrides: ConfigIssue[] = [];
+
+  try {
+    readOverrideLayers();
+  } catch (error: any) {
+    overrides.push({ path: "environment", problem: error.message, fix: "correct or unset the variable" });
+  }
+
+  const exists = (name: string) => name === DEFAULT_PROFILE || files.some((report) => report.file?.profiles[name]);
+  const envProfile = process.env[CONFIG_ENV_VARS.profile];
+  if (envProfile && !exists(envProfile)) {
+    overrides.push({ path: CONFIG_ENV_VARS.profile, problem: `profile "${envProfile}" does not exist`, fix: "correct or unset the variable" });
+  }
+  for (const report of files) {
+    const active = report.file?.activeProfile;
+    if (active && !exists(active)) {
+      report.issues.push({ path: "activeProfile", problem: `profile "${active}" does not exist`, fix: `reset to "${DEFAULT_PROFILE}"` });
+      delete report.file!.activeProfile;
+    }
+  }
+
+  return { files, overrides };
+}
+
+/**
+ * Rewrite config files with migrations applied and invalid entries removed.
+ * Unparseable files are moved aside. The original is kept as a .bak file.
+ * Returns the backups made.
+ */
+export function repairConfig(files: ConfigFileReport[]): Array<{ path: string; backup: string }> {
+  const repaired: Array<{ path: string; backup: string }> = [];
+
+  for (const report of files) {
+    const needsRepair = report.error || report.migrations.length > 0 || report.issues.length > 0;
+    // Files from a newer CLI are left for that CLI to handle
+    if (!report.exists || !needsRepair || (report.version ?? 0) > CONFIG_VERSION) continue;
+
+    const backup = `${report.path}.bak`;
+    withFileLock(report.path, () => {
+      copyFileSync(report.path, backup);
+      if (report.file) {
+        writeConfigFile(report.path, report.file);
+      } else {
+        unlinkSync(report.path);
+      }
+    });
+    repaired.push({ path: report.path, backup });
+  }
+
+  return repaired;
+}
+
+/**
+ * Parse a boolean config value ("true"/"false", "1"/"0", "yes"/"no").
+ */
+function parseBoolean(value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (["true", "1", "yes", "on"].includes(normalized)) return true;
+  if (["false", "0", "no", "off"].includes(normalized)) return false;
+  throw new Error(`Expected true or false, got "${value}"`);
+}
+
+/**
+ * Parse a fee mode config value.
+ */
+function parseFeeMode(value: string): FeeMode {
+  if (!isFeeMode(value)) {
+    throw new Error(`Unknown fee mode "${value}". Expected one of: ${FEE_MODES.join(", ")}`);
+  }
+  return value;
+}
+
+/**
+ * Check whether a string is a config key.
+ */
+export function isConfigKey(key: string): key is ConfigKey {
+  return (CONFIG_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * Set a single config key from its string form.
+ * Writes to the local config file unless useGlobal is set.
+ */
+export function setConfigValue(key: ConfigKey, value: string, useGlobal: boolean = false): CLIConfig {
+  switch (key) {
+    case "network":
+      if (!isNetworkName(value)) {
+        throw new Error(`Unknown network "${value}". Expected one of: ${Object.keys(NETWORK_URLS).join(", ")}, custom`);
+      }
+      if (value === "custom") {
+        return updateConfig({ network: value }, useGlobal);
+      }
+      return updateConfig({ network: value, nodeUrl: NETWORK_URLS[value] }, useGlobal);
+    case "nodeUrl":
+      return updateConfig({ network: "custom", nodeUrl: normalizeNodeUrl(value) }, useGlobal);
+    case "contractAddress":
+      if (!isValidAddress(value)) {
+        throw new Error("Invalid address format. Expected 0x followed by 64 hex characters.");
+      }
+      return updateConfig({ contractAddress: value }, useGlobal);
+    case "currentGameId":
+      return updateConfig({ currentGameId: parseGameId(value) }, useGlobal);
+    case "proverEnabled":
+      return updateConfig({ proverEnabled: parseBoolean(value) }, useGlobal);
+    case "feeMode":
+      return updateConfig({ feeMode: parseFeeMode(value) }, useGlobal);
+    case "fpcAddress":
+      if (!isValidAddress(value)) {
+        throw new Error("Invalid address format. Expected 0x followed by 64 hex characters.");
+      }
+      return updateConfig({ fpcAddress: value }, useGlobal);
+    case "requestTimeout":
+    case "maxAttempts":
+    case "sendTimeout":
+      return updateConfig({ [key]: parsePolicyValue(key, value) }, useGlobal);
+  }
+}
+
+/**
+ * Remove a single config key from a config file.
+ * Network and node URL are removed together since they go hand in hand.
+ */
+export function unsetConfigValue(key: ConfigKey, useGlobal: boolean = false): CLIConfig {
+  if (key === "network" || key === "nodeUrl") {
+    return updateConfig({ network: undefined, nodeUrl: undefined }, useGlobal);
+  }
+  return updateConfig({ [key]: undefined }, useGlobal);
+}
+
+/**
+ * List all profiles with their settings from the config files.
+ */
+export function listProfiles(): Array<{ name: string; config: CLIConfig; active: boolean }> {
+  const fileLayers = readFileLayers();
+  const activeName = getActiveProfileName();
+
+  const names = new Set<string>();
+  for (const { file } of fileLayers) {
+    Object.keys(file.profiles).forEach((name) => names.add(name));
+  }
+  if (names.size === 0) names.add(DEFAULT_PROFILE);
+
+  return [...names].map((name) => ({
+    name,
+    config: resolveLayers([], fileLayers, name).config,
+    active: name === activeName,
+  }));
+}
+
+/**
+ * Create a new profile in the local config file.
+ * Starts from defaults, or from a copy of an existing profile.
+ */
+export function createProfile(name: string, fromProfile?: string): CLIConfig {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new Error("Profile names may only contain letters, numbers, '-' and '_'.");
+  }
+
+  const fileLayers = readFileLayers();
+  const exists = (profile: string) => fileLayers.some(({ file }) => file.profiles[profile]);
+  if (exists(name)) {
+    throw new Error(`Profile "${name}" already exists.`);
+  }
+
+  let stored: Partial<CLIConfig> = {};
+  if (fromProfile) {
+    if (!exists(fromProfile)) {
+      throw new Error(`Profile "${fromProfile}" does not exist.`);
+    }
+    stored = toStoredProfile(resolveLayers([], fileLayers, fromProfile).config);
+  }
+
+  modifyConfigFile(LOCAL_CONFIG_PATH, (file) => {
+    if (file.profiles[name]) {
+      throw new Error(`Profile "${name}" already exists.`);
+    }
+    file.profiles[name] = stored;
+  });
+  return resolveLayers([], readFileLayers(), name).config;
+}
+
+/**
+ * Make a profile the default for future sessions.
+ */
+export function useProfile(name: string): void {
+  const fileLayers = readFileLayers();
+  if (name !== DEFAULT_PROFILE && !fileLayers.some(({ file }) => file.profiles[name])) {
+    throw new Error(`Profile "${name}" does not exist. Run 'yarn cli profile create ${name}' first.`);
+  }
+
+  modifyConfigFile(LOCAL_CONFIG_PATH, (file) => {
+    file.activeProfile = name;
+  });
+}
+
+/**
+ * Delete a profile from every config file. The active profile cannot be deleted.
+ */
+export function deleteProfile(name: string): void {
+  if (name === getActiveProfileName()) {
+    throw new Error(`Cannot delete the active profile "${name}". Switch with 'yarn cli profile use <name>' first.`);
+  }
+
+  let found = false;
+  for (const configPath of [LOCAL_CONFIG_PATH, GLOBAL_CONFIG_PATH]) {
+    if (!readConfigFile(configPath)?.profiles[name]) continue;
+    modifyConfigFile(configPath, (file) => {
+      delete file.profiles[name];
+    });
+    found = true;
+  }
+
+  if (!found) {
+    throw new Error(`Profile "${name}" does not exist.`);
+  }
 }
 
 /**
@@ -114,7 +1425,7 @@ export function hasContractAddress(): boolean {
 export function getContractAddress(): string {
   const config = loadConfig();
   if (!config.contractAddress) {
-    throw new Error("No contract address configured. Run 'yarn cli setup' first.");
+    throw new Error(`No contract address configured for profile "${getActiveProfileName()}". Run 'yarn cli setup' first.`);
   }
   return config.contractAddress;
 }
@@ -137,6 +1448,36 @@ export function setNetwork(network: "sandbox" | "devnet" | "next-devnet"): CLICo
   });
 }
 
+/**
+ * Point the CLI at a custom node URL.
+ * The proving choice is reset when the endpoint changes, unless given.
+ */
+export function setCustomNodeUrl(nodeUrl: string, proverEnabled?: boolean): CLIConfig {
+  const normalizedUrl = normalizeNodeUrl(nodeUrl);
+
+  const current = loadConfig();
+  const updates: Partial<CLIConfig> = { network: "custom", nodeUrl: normalizedUrl };
+  if (proverEnabled !== undefined) {
+    updates.proverEnabled = proverEnabled;
+  } else if (current.network !== "custom" || current.nodeUrl !== normalizedUrl) {
+    updates.proverEnabled = undefined;
+  }
+
+  return updateConfig(updates);
+}
+
+/**
+ * Whether the current node needs client-side proofs.
+ * Returns undefined for a custom node that hasn't been asked about yet.
+ */
+export function getProverEnabled(): boolean | undefined {
+  const config = loadConfig();
+  if (config.network === "custom") {
+    return config.proverEnabled;
+  }
+  return config.network !== "sandbox";
+}
+
 /**
  * Get the current network name.
  */
@@ -161,18 +1502,108 @@ export function getCurrentGameId(): number | undefined {
 }
 
 /**
- * Get the effective game ID from CLI option, GAME env var, or config.
- * Priority: CLI option > GAME env var > config.currentGameId
+ * Get the effective game ID from CLI option, environment, or config.
+ * The CLI option may be a game ID or the alias of a tracked game.
+ * Priority: CLI option > ZK_GAME/GAME env var > config.currentGameId
  */
-export function getEffectiveGameId(cliOption?: number): number | undefined {
+export function getEffectiveGameId(cliOption?: GameRef): number | undefined {
   if (cliOption !== undefined) {
-    return cliOption;
+    return resolveGameRef(cliOption);
+  }
+  return getCurrentGameId();
+}
+
+/**
+ * Get the games tracked for the current network's contract.
+ */
+export function getTrackedGames(): TrackedGame[] {
+  const config = loadConfig();
+  return config.deployments[getDeploymentKey(config)]?.games ?? [];
+}
+
+/**
+ * Turn a game ID or alias into a game ID.
+ */
+export function resolveGameRef(ref: GameRef): number {
+  if (typeof ref === "number" || /^\d+$/.test(ref.trim())) {
+    return parseGameId(ref);
   }
-  if (process.env.GAME) {
-    const envGameId = parseInt(process.env.GAME, 10);
-    if (!isNaN(envGameId)) {
-      return envGameId;
+
+  const game = getTrackedGames().find((tracked) => tracked.alias === ref);
+  if (!game) {
+    throw new Error(`No tracked game with alias "${ref}". Run 'yarn cli games list' to see tracked games.`);
+  }
+  return game.id;
+}
+
+/**
+ * Rewrite the tracked games for the current network in the local config file.
+ */
+function updateTrackedGames(modify: (games: TrackedGame[]) => TrackedGame[]): TrackedGame[] {
+  return modifyConfigFile(LOCAL_CONFIG_PATH, (file) => {
+    const { profile, config } = resolveConfig();
+    const key = getDeploymentKey(config);
+    const games = modify([...(config.deployments[key]?.games ?? [])]);
+
+    const stored: Partial<CLIConfig> = { ...file.profiles[profile] };
+    const deployments = { ...stored.deployments };
+    const deployment: NetworkDeployment = { ...deployments[key], games };
+    if (isEmptyDeployment(deployment)) {
+      delete deployments[key];
+    } else {
+      deployments[key] = deployment;
     }
+    file.profiles[profile] = { ...stored, deployments };
+    return games;
+  });
+}
+
+/**
+ * Check that an alias is well formed and not used by another tracked game.
+ */
+export function validateGameAlias(alias: string, gameId?: number): void {
+  if (!GAME_ALIAS_PATTERN.test(alias)) {
+    throw new Error("Aliases may only contain letters, numbers, '-' and '_', and can't be all digits.");
   }
-  return getCurrentGameId();
+  const owner = getTrackedGames().find((game) => game.alias === alias);
+  if (owner && owner.id !== gameId) {
+    throw new Error(`Alias "${alias}" is already used by game #${owner.id}.`);
+  }
+}
+
+/**
+ * Track a game, or change the alias of one already tracked.
+ */
+export function trackGame(gameId: number, alias?: string): TrackedGame {
+  const id = parseGameId(gameId);
+  if (alias !== undefined) {
+    validateGameAlias(alias, id);
+  }
+
+  let tracked: TrackedGame = { id };
+  updateTrackedGames((games) => {
+    const existing = games.find((game) => game.id === id);
+    tracked = { id, alias: alias ?? existing?.alias };
+    return existing
+      ? games.map((game) => (game.id === id ? tracked : game))
+      : [...games, tracked];
+  });
+  return tracked;
+}
+
+/**
+ * Stop tracking a game given its ID or alias.
+ */
+export function untrackGame(ref: GameRef): TrackedGame {
+  const id = resolveGameRef(ref);
+
+  let removed: TrackedGame | undefined;
+  updateTrackedGames((games) => {
+    removed = games.find((game) => game.id === id);
+    return games.filter((game) => game.id !== id);
+  });
+  if (!removed) {
+    throw new Error(`Game #${id} is not tracked.`);
+  }
+  return removed;
 }
@@ -2,18 +2,30 @@
  * Contract Service - Deploy and connect to SecretSanta contract
  *
  * Handles contract deployment, registration, and connection
- * for the Secret Santa protocol.
+ * for the Secret Santa protocol. Node calls run under a RequestPolicy
+ * (timeouts and retries); the shared one unless another is passed.
  */
 
 import { AztecAddress } from "@aztec/aztec.js/addresses";
 import { Contract } from "@aztec/aztec.js/contracts";
+import { Fr } from "@aztec/aztec.js/fields";
+import { deriveStorageSlotInMap } from "@aztec/stdlib/hash";
+import {
+  getContractClassFromArtifact,
+  getContractInstanceFromInstantiationParams,
+  type ContractInstanceWithAddress,
+} from "@aztec/stdlib/contract";
 import type { AztecNode } from "@aztec/aztec.js/node";
+import type { TxReceipt } from "@aztec/aztec.js/tx";
 import {
   SecretSantaContract,
   SecretSantaContractArtifact,
 } from "../../../artifacts/SecretSanta.js";
+import SecretSantaArtifactJson from "../../../target/secret_santa_contract-SecretSanta.json" with { type: "json" };
 import { TestWallet } from "@aztec/test-wallet/server";
-import { getSponsoredPaymentMethod } from "./wallet.js";
+import type { FeeOptions } from "./fees.js";
+import { ArtifactMismatchError, ContractNotFoundError } from "./errors.js";
+import { getRequestPolicy, type RequestPolicy } from "./policy.js";
 
 // Game phase constants (must match contract)
 export const PHASE = {
@@ -31,13 +43,46 @@ export const PHASE_NAMES: Record<number, string> = {
 };
 
 /**
- * Deploy a new SecretSanta contract.
+ * Options that fix a deployment's address.
+ */
+export interface DeployOptions {
+  // Address salt; random when unset
+  salt?: Fr;
+  // Deploy with a zero deployer, so the address doesn't depend on the sender
+  universal?: boolean;
+}
+
+/**
+ * Compute the address a deployment will get, without a node or wallet.
+ * The deployer is the sending account, or zero for universal deployments.
+ */
+export async function predictContractAddress(
+  admin: AztecAddress,
+  salt: Fr,
+  deployer: AztecAddress
+): Promise<AztecAddress> {
+  const instance = await getContractInstanceFromInstantiationParams(SecretSantaContractArtifact, {
+    constructorArtifact: "constructor",
+    constructorArgs: [admin],
+    salt,
+    deployer,
+  });
+  return instance.address;
+}
+
+/**
+ * Deploy a new SecretSanta contract from the given account, paying with `fee`.
+ * Returns the deployment receipt, salt and deployer along with the contract.
  */
 export async function deployContract(
   wallet: TestWallet,
-  admin: AztecAddress
-): Promise<SecretSantaContract> {
-  const paymentMethod = await getSponsoredPaymentMethod(wallet);
+  admin: AztecAddress,
+  from: AztecAddress,
+  fee: FeeOptions,
+  options: DeployOptions = {},
+  policy: RequestPolicy = getRequestPolicy()
+): Promise<{ contract: SecretSantaContract; receipt: TxReceipt; salt: Fr; deployer: AztecAddress }> {
+  const salt = options.salt ?? Fr.random();
   const deployMethod = await Contract.deploy(
     wallet,
     SecretSantaContractArtifact,
@@ -45,26 +90,83 @@ export async function deployContract(
     "constructor"
   )
 
-  const tx = await deployMethod.send({ from: admin, fee: { paymentMethod } });
-  const contract = await tx.deployed();
+  // Sent once: a deployment that timed out may still be mined
+  const { sendTimeoutMs } = policy.settings;
+  const tx = await deployMethod.send({ from, fee, contractAddressSalt: salt, universalDeploy: options.universal });
+  const receipt = await policy.run("deploy", () => tx.wait({ timeout: sendTimeoutMs / 1000 }), {
+    retry: false,
+    timeoutMs: sendTimeoutMs,
+  });
+
+  const deployer = options.universal ? AztecAddress.ZERO : from;
+  return { contract: receipt.contract as SecretSantaContract, receipt, salt, deployer };
+}
+
+// Class ID of the local artifact, computed once
+let artifactClassId: Promise<Fr> | undefined;
 
-  return contract as SecretSantaContract;
+/**
+ * Describe the local SecretSanta artifact: its contract class ID and the
+ * Noir compiler version it was built with.
+ */
+export async function getArtifactInfo(): Promise<{ name: string; classId: Fr; noirVersion: string }> {
+  artifactClassId ??= getContractClassFromArtifact(SecretSantaContractArtifact).then((contractClass) => contractClass.id);
+  return {
+    name: SecretSantaContractArtifact.name,
+    classId: await artifactClassId,
+    noirVersion: SecretSantaArtifactJson.noir_version,
+  };
+}
+
+/**
+ * Compare the class of the contract deployed at an address with the local
+ * artifact's. Throws ContractNotFoundError if nothing is deployed there.
+ */
+export async function checkContractClass(
+  node: AztecNode,
+  contractAddress: AztecAddress,
+  policy: RequestPolicy = getRequestPolicy()
+): Promise<{ instance: ContractInstanceWithAddress; deployedClassId: Fr; artifactClassId: Fr; matches: boolean }> {
+  const instance = await policy.run("getContract", () => node.getContract(contractAddress));
+  if (!instance) {
+    throw new ContractNotFoundError(`Contract not found at ${contractAddress.toString()}`);
+  }
+  const { classId } = await getArtifactInfo();
+  const deployedClassId = instance.currentContractClassId;
+  return { instance, deployedClassId, artifactClassId: classId, matches: deployedClassId.equals(classId) };
+}
+
+/**
+ * Refuse a contract whose class differs from the local artifact's: its
+ * functions and storage may not be what this code expects.
+ */
+function assertClassMatches(
+  contractAddress: AztecAddress,
+  check: { deployedClassId: Fr; artifactClassId: Fr; matches: boolean }
+): void {
+  if (!check.matches) {
+    throw new ArtifactMismatchError(
+      `The contract at ${contractAddress.toString()} has class ${check.deployedClassId.toString()}, ` +
+        `but the local SecretSanta artifact has class ${check.artifactClassId.toString()}`
+    );
+  }
 }
 
 /**
  * Connect to an existing SecretSanta contract.
- * Gets the contract instance from the node and registers it with the wallet.
+ * Gets the contract instance from the node, checks that it was deployed
+ * from the local artifact, and registers it with the wallet.
  */
 export async function connectToContract(
   wallet: TestWallet,
   contractAddress: AztecAddress,
-  node: AztecNode
+  node: AztecNode,
+  policy: RequestPolicy = getRequestPolicy()
 ): Promise<SecretSantaContract> {
   // Get contract instance from the node (L2 state)
-  const instance = await node.getContract(contractAddress);
-  if (!instance) {
-    throw new Error(`Contract not found at ${contractAddress.toString()}`);
-  }
+  const check = await checkContractClass(node, contractAddress, policy);
+  assertClassMatches(contractAddress, check);
+  const { instance } = check;
 
   // Register the contract with the wallet
   await wallet.registerContract(instance, SecretSantaContractArtifact);
@@ -88,26 +190,55 @@ export async function isContractDeployed(
   }
 }
 
+/**
+ * Get the contract's admin (`get_admin`).
+ */
+export async function getContractAdmin(
+  contract: SecretSantaContract,
+  caller: AztecAddress,
+  policy: RequestPolicy = getRequestPolicy()
+): Promise<AztecAddress> {
+  return policy.run("get_admin", () => contract.methods.get_admin().simulate({ from: caller }));
+}
+
+/**
+ * Read the ID the next game will get from public storage, as of a block.
+ */
+export async function getNextGameIdAt(
+  node: AztecNode,
+  contractAddress: AztecAddress,
+  blockNumber: number,
+  policy: RequestPolicy = getRequestPolicy()
+): Promise<number> {
+  const value = await policy.run("getPublicStorageAt", () =>
+    node.getPublicStorageAt(blockNumber, contractAddress, SecretSantaContract.storage.next_game_id.slot)
+  );
+  return Number(value.toBigInt());
+}
+
 /**
  * Get game information from the contract.
  */
 export async function getGameInfo(
   contract: SecretSantaContract,
   gameId: bigint,
-  caller: AztecAddress
+  caller: AztecAddress,
+  policy: RequestPolicy = getRequestPolicy()
 ): Promise<{
   phase: number;
   phaseName: string;
   participantCount: number;
   maxParticipants: number;
 }> {
-  const phase = await contract.methods.get_game_phase(gameId).simulate({ from: caller });
-  const participantCount = await contract.methods
-    .get_participant_count(gameId)
-    .simulate({ from: caller });
-  const maxParticipants = await contract.methods
-    .get_max_participants(gameId)
-    .simulate({ from: caller });
+  const [phase, participantCount, maxParticipants] = await Promise.all([
+    policy.run("get_game_phase", () => contract.methods.get_game_phase(gameId).simulate({ from: caller })),
+    policy.run("get_participant_count", () =>
+      contract.methods.get_participant_count(gameId).simulate({ from: caller })
+    ),
+    policy.run("get_max_participants", () =>
+      contract.methods.get_max_participants(gameId).simulate({ from: caller })
+    ),
+  ]);
 
   return {
     phase: Number(phase),
@@ -137,9 +268,12 @@ export interface GameState {
 export async function getGameState(
   contract: SecretSantaContract,
   gameId: bigint,
-  caller: AztecAddress
+  caller: AztecAddress,
+  policy: RequestPolicy = getRequestPolicy()
 ): Promise<GameState> {
-  const result = await contract.methods.get_game_state(gameId).simulate({ from: caller });
+  const result = await policy.run("get_game_state", () =>
+    contract.methods.get_game_state(gameId).simulate({ from: caller })
+  );
 
   // Result is a tuple: (phase, participant_count, max_participants, sender_count, receiver_count, sender_slots[128], receiver_slots[128])
   const [phase, participantCount, maxParticipants, senderCount, receiverCount, senderSlotsArr, receiverSlotsArr] = result;
@@ -164,6 +298,83 @@ export async function getGameState(
   };
 }
 
+/**
+ * Reads game state, either by simulating the contract's utility functions
+ * (needs an account) or straight from public storage on the node (read-only).
+ */
+export interface GameReader {
+  getGameState(gameId: bigint): Promise<GameState>;
+  getGamePhase(gameId: bigint): Promise<number>;
+}
+
+/**
+ * Read game state through contract simulation as the given account.
+ */
+export function contractGameReader(contract: SecretSantaContract, caller: AztecAddress): GameReader {
+  return {
+    getGameState: (gameId) => getGameState(contract, gameId, caller),
+    getGamePhase: async (gameId) => (await getGameInfo(contract, gameId, caller)).phase,
+  };
+}
+
+/**
+ * Read game state from the contract's public storage, without an account or PXE.
+ * Mirrors `get_game_state` in the contract.
+ */
+export async function publicGameReader(
+  node: AztecNode,
+  contractAddress: AztecAddress,
+  policy: RequestPolicy = getRequestPolicy()
+): Promise<GameReader> {
+  // The storage layout below comes from the local artifact
+  assertClassMatches(contractAddress, await checkContractClass(node, contractAddress, policy));
+
+  const layout = SecretSantaContract.storage;
+  const read = async (slot: Fr) =>
+    (await policy.run("getPublicStorageAt", () => node.getPublicStorageAt("latest", contractAddress, slot))).toBigInt();
+  // Storage slot of map[key1][key2]...
+  const at = async (mapSlot: Fr, ...keys: bigint[]) => {
+    let slot = mapSlot;
+    for (const key of keys) {
+      slot = await deriveStorageSlotInMap(slot, new Fr(key));
+    }
+    return slot;
+  };
+
+  const getGamePhase = async (gameId: bigint) => Number(await read(await at(layout.game_phases.slot, gameId)));
+
+  return {
+    getGamePhase,
+    async getGameState(gameId) {
+      const [phase, participantCount, maxParticipants, receiverCount] = await Promise.all([
+        getGamePhase(gameId),
+        read(await at(layout.participant_counts.slot, gameId)).then(Number),
+        read(await at(layout.max_participants.slot, gameId)).then(Number),
+        read(await at(layout.receiver_claim_counts.slot, gameId)).then(Number),
+      ]);
+
+      const slots = Array.from({ length: maxParticipants }, (_, i) => i + 1);
+      const [senderFlags, receiverFlags] = await Promise.all([
+        Promise.all(slots.map(async (slot) => read(await at(layout.slot_claimed.slot, gameId, BigInt(slot))))),
+        Promise.all(slots.map(async (slot) => read(await at(layout.slot_receiver_claimed.slot, gameId, BigInt(slot))))),
+      ]);
+      const senderSlots = slots.filter((_, i) => senderFlags[i] !== 0n);
+      const receiverSlots = slots.filter((_, i) => receiverFlags[i] !== 0n);
+
+      return {
+        phase,
+        phaseName: PHASE_NAMES[phase] || "Unknown",
+        participantCount,
+        maxParticipants,
+        senderCount: senderSlots.length,
+        receiverCount,
+        senderSlots,
+        receiverSlots,
+      };
+    },
+  };
+}
+
 /**
  * Get slot information for a game.
  */
@@ -171,21 +382,22 @@ export async function getSlotInfo(
   contract: SecretSantaContract,
   gameId: bigint,
   slot: number,
-  caller: AztecAddress
+  caller: AztecAddress,
+  policy: RequestPolicy = getRequestPolicy()
 ): Promise<{
   isClaimed: boolean;
   hasDeliveryData: boolean;
 }> {
-  const isClaimed = await contract.methods
-    .is_slot_claimed(gameId, slot)
-    .simulate({ from: caller });
+  const isClaimed = await policy.run("is_slot_claimed", () =>
+    contract.methods.is_slot_claimed(gameId, slot).simulate({ from: caller })
+  );
 
   // Check if delivery data exists by trying to read it
   let hasDeliveryData = false;
   try {
-    const deliveryData = await contract.methods
-      .get_slot_delivery_data(gameId, BigInt(slot))
-      .simulate({ from: caller });
+    const deliveryData = await policy.run("get_slot_delivery_data", () =>
+      contract.methods.get_slot_delivery_data(gameId, BigInt(slot)).simulate({ from: caller })
+    );
     // If first element is non-zero, we have data
     hasDeliveryData = deliveryData[0] !== 0n;
   } catch {
@@ -202,11 +414,12 @@ export async function getClaimedSlots(
   contract: SecretSantaContract,
   gameId: bigint,
   maxSlots: number,
-  caller: AztecAddress
+  caller: AztecAddress,
+  policy: RequestPolicy = getRequestPolicy()
 ): Promise<number[]> {
-  const allSlots = await contract.methods
-    .get_all_claimed_slots(gameId, maxSlots)
-    .simulate({ from: caller });
+  const allSlots = await policy.run("get_all_claimed_slots", () =>
+    contract.methods.get_all_claimed_slots(gameId, maxSlots).simulate({ from: caller })
+  );
 
   const claimedSlots: number[] = [];
   for (let i = 0; i < maxSlots; i++) {
@@ -225,11 +438,12 @@ export async function getReceiverClaimedSlots(
   contract: SecretSantaContract,
   gameId: bigint,
   maxSlots: number,
-  caller: AztecAddress
+  caller: AztecAddress,
+  policy: RequestPolicy = getRequestPolicy()
 ): Promise<number[]> {
-  const allSlots = await contract.methods
-    .get_all_receiver_claimed_slots(gameId, maxSlots)
-    .simulate({ from: caller });
+  const allSlots = await policy.run("get_all_receiver_claimed_slots", () =>
+    contract.methods.get_all_receiver_claimed_slots(gameId, maxSlots).simulate({ from: caller })
+  );
 
   const claimedSlots: number[] = [];
   for (let i = 0; i < maxSlots; i++) {
@@ -0,0 +1,362 @@
+/**
+ * Daemon Service - A long-lived process that keeps the wallet warm
+ *
+ * `daemon start` runs a background process that owns the TestWallet/PXE and
+ * the account, and listens on a local socket (a Unix socket in the config
+ * directory, or a named pipe on Windows). While it runs, CLI commands send
+ * their arguments to it and print the output it streams back, skipping the
+ * node connection and wallet setup each run would otherwise repeat.
+ *
+ * Requests and replies are newline-delimited JSON. A `run` request gets any
+ * number of `output` frames followed by one `exit` frame, or a `refused`
+ * frame if the daemon would run it differently than the caller would.
+ */
+
+import { stripVTControlCharacters } from "util";
+import { createConnection, createServer, type Socket } from "net";
+import { getSocketPath, isAuthorized, listenPrivate, readSocketToken } from "./socket.js";
+
+/**
+ * A CLI invocation to run inside the daemon.
+ */
+export interface DaemonRunRequest {
+  // Arguments after the script name, as typed
+  argv: string[];
+  // The caller's ZK_* environment variables, which must match the daemon's
+  env: Record<string, string>;
+  // Address the caller would sign as, if it knows; the daemon won't sign as another
+  account?: string;
+  // Reads don't wait for queued writes
+  readOnly: boolean;
+}
+
+/**
+ * What the daemon reports about itself.
+ */
+export interface DaemonStatus {
+  pid: number;
+  startedAt: string;
+  profile: string;
+  network: string;
+  // Directory the daemon reads the local config file from
+  cwd: string;
+  account?: string;
+  accountSource?: string;
+  commandsServed: number;
+  lastCommandAt?: string;
+  idleTimeoutMs: number;
+}
+
+type DaemonRequest = (
+  | ({ op: "run" } & DaemonRunRequest)
+  | { op: "init"; secretKey: string; source: string }
+  | { op: "status" }
+  | { op: "stop" }
+) & { token?: string };
+
+type DaemonFrame =
+  | { type: "output"; stream: "stdout" | "stderr"; data: string }
+  | { type: "exit"; code: number }
+  | { type: "refused"; reason: string }
+  | { type: "reply"; ok: boolean; error?: string; status?: DaemonStatus };
+
+/**
+ * What the daemon process does with requests; provided by the CLI entry point.
+ */
+export interface DaemonHandlers {
+  // Take over the account and warm up its wallet; returns the account address
+  init(secretKey: Buffer, source: string): Promise<string>;
+  run(request: DaemonRunRequest, write: (stream: "stdout" | "stderr", data: string) => void): Promise<number>;
+  // The profile and network the daemon serves
+  describe(): { profile: string; network: string };
+}
+
+// How long a status or control request may take (init warms up the wallet)
+const REQUEST_TIMEOUT_MS = 2000;
+const INIT_TIMEOUT_MS = 5 * 60_000;
+
+// How often the daemon checks its idle timeout
+const IDLE_CHECK_INTERVAL_MS = 30_000;
+
+/**
+ * Get the daemon's socket path for the current config directory.
+ */
+export function getDaemonSocketPath(): string {
+  return getSocketPath("daemon");
+}
+
+// Checked on their own: a passphrase keeps a command out of the daemon, and
+// the profile is compared by name
+const UNCOMPARED_ENV = new Set(["ZK_PASSPHRASE", "ZK_PROFILE"]);
+
+/**
+ * Get the ZK_* environment variables a command runs with, which must match
+ * between the caller and the daemon.
+ */
+export function getDaemonEnv(): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(process.env).filter(([key]) => key.startsWith("ZK_") && !UNCOMPARED_ENV.has(key))
+  ) as Record<string, string>;
+}
+
+/**
+ * Explain why the daemon won't run a command as the caller would, if it won't.
+ */
+function checkRunRequest(req: DaemonRunRequest, account: string | undefined): string | undefined {
+  if (req.account && req.account.toLowerCase() !== account?.toLowerCase()) {
+    return `the caller signs as ${req.account}, the daemon as ${account ?? "nobody"}`;
+  }
+  const ours = getDaemonEnv();
+  const theirs = req.env ?? {};
+  const keys = new Set([...Object.keys(ours), ...Object.keys(theirs)]);
+  const differs = [...keys].filter((key) => ours[key] !== theirs[key]);
+  if (differs.length > 0) {
+    return `the caller's ${differs.sort().join(", ")} differ from the daemon's`;
+  }
+  return undefined;
+}
+
+/**
+ * Send a request and feed each reply frame to onFrame.
+ * Resolves false if no daemon is running.
+ */
+function request(req: DaemonRequest, onFrame: (frame: DaemonFrame) => void, timeoutMs?: number): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(getDaemonSocketPath());
+    let data = "";
+
+    if (timeoutMs) {
+      socket.setTimeout(timeoutMs, () => {
+        socket.destroy();
+        reject(new Error("Daemon did not respond"));
+      });
+    }
+    socket.on("connect", () => socket.write(JSON.stringify({ ...req, token: readSocketToken("daemon") }) + "\n"));
+    socket.on("data", (chunk) => {
+      data += chunk;
+      let newline: number;
+      while ((newline = data.indexOf("\n")) >= 0) {
+        const line = data.slice(0, newline);
+        data = data.slice(newline + 1);
+        try {
+          onFrame(JSON.parse(line) as DaemonFrame);
+        } catch (err) {
+          socket.destroy();
+          reject(err instanceof SyntaxError ? new Error("Daemon sent an invalid response") : err);
+          return;
+        }
+      }
+    });
+    socket.on("end", () => resolve(true));
+    socket.on("error", (err: NodeJS.ErrnoException) => {
+      if (err.code === "ENOENT" || err.code === "ECONNREFUSED") {
+        resolve(false);
+      } else {
+        reject(err);
+      }
+    });
+  });
+}
+
+/**
+ * Send a control request and return its reply, or null if no daemon is running.
+ */
+async function control(req: DaemonRequest, timeoutMs: number = REQUEST_TIMEOUT_MS): Promise<Extract<DaemonFrame, { type: "reply" }> | null> {
+  let reply: Extract<DaemonFrame, { type: "reply" }> | undefined;
+  const running = await request(req, (frame) => {
+    if (frame.type === "reply") reply = frame;
+  }, timeoutMs);
+  if (!running) return null;
+  if (!reply) throw new Error("Daemon closed the connection without replying");
+  return reply;
+}
+
+/**
+ * Get the running daemon's status, or null if none is running.
+ */
+export async function getDaemonStatus(): Promise<DaemonStatus | null> {
+  return (await control({ op: "status" }))?.status ?? null;
+}
+
+/**
+ * Hand the account to a freshly started daemon and wait for it to warm up.
+ */
+export async function initDaemon(secretKey: Buffer, source: string): Promise<DaemonStatus> {
+  const reply = await control({ op: "init", secretKey: secretKey.toString("hex"), source }, INIT_TIMEOUT_MS);
+  if (!reply) {
+    throw new Error("Daemon is not running");
+  }
+  if (!reply.ok || !reply.status) {
+    throw new Error(reply.error ?? "Daemon failed to start the wallet");
+  }
+  return reply.status;
+}
+
+/**
+ * Tell the daemon to exit. Returns false if none was running.
+ */
+export async function stopDaemon(): Promise<boolean> {
+  return (await control({ op: "stop" })) !== null;
+}
+
+/**
+ * Wait for a newly spawned daemon to accept connections.
+ */
+export async function waitForDaemon(timeoutMs: number = 10_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (await getDaemonStatus()) return;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error("Daemon did not start");
+}
+
+/**
+ * Run a CLI invocation in the daemon, printing its output here (without
+ * colors unless the terminal shows them). Returns the exit code, or null if
+ * no daemon is running or it refused the command.
+ */
+export async function forwardToDaemon(req: DaemonRunRequest, colors: boolean): Promise<number | null> {
+  let code: number | undefined;
+  let refused = false;
+  const running = await request({ op: "run", ...req }, (frame) => {
+    if (frame.type === "output") {
+      const data = colors ? frame.data : stripVTControlCharacters(frame.data);
+      (frame.stream === "stderr" ? process.stderr : process.stdout).write(data);
+    } else if (frame.type === "exit") {
+      code = frame.code;
+    } else if (frame.type === "refused") {
+      refused = true;
+    }
+  });
+  if (!running || refused) return null;
+  if (code === undefined) throw new Error("Daemon stopped before the command finished");
+  return code;
+}
+
+/**
+ * Run the daemon in this process until it is stopped or sits idle for idleTimeoutMs
+ * (0 keeps it running).
+ */
+export async function runDaemon(handlers: DaemonHandlers, idleTimeoutMs: number): Promise<void> {
+  if (await getDaemonStatus()) {
+    throw new Error("Daemon is already running");
+  }
+
+  const startedAt = new Date().toISOString();
+  const { profile, network } = handlers.describe();
+  let account: { address: string; source: string } | undefined;
+  let commandsServed = 0;
+  let lastActivity = Date.now();
+  let lastCommandAt: string | undefined;
+  // Writes share the wallet's nonces and notes, so they run one at a time
+  let queue: Promise<unknown> = Promise.resolve();
+  let token = "";
+
+  const status = (): DaemonStatus => ({
+    pid: process.pid,
+    startedAt,
+    profile,
+    network,
+    cwd: process.cwd(),
+    account: account?.address,
+    accountSource: account?.source,
+    commandsServed,
+    lastCommandAt,
+    idleTimeoutMs,
+  });
+
+  const send = (socket: Socket, frame: DaemonFrame) => {
+    if (!socket.destroyed) socket.write(JSON.stringify(frame) + "\n");
+  };
+
+  const handle = async (req: DaemonRequest, socket: Socket): Promise<void> => {
+    lastActivity = Date.now();
+    if (!isAuthorized(token, req.token)) {
+      send(socket, { type: "reply", ok: false, error: "not authorized" });
+      socket.end();
+      return;
+    }
+    switch (req.op) {
+      case "status":
+        send(socket, { type: "reply", ok: true, status: status() });
+        break;
+      case "init":
+        try {
+          const address = await handlers.init(Buffer.from(req.secretKey, "hex"), req.source);
+          account = { address, source: req.source };
+          send(socket, { type: "reply", ok: true, status: status() });
+        } catch (err: any) {
+          send(socket, { type: "reply", ok: false, error: err.message });
+        }
+        break;
+      case "run": {
+        const reason = checkRunRequest(req, account?.address);
+        if (reason) {
+          send(socket, { type: "refused", reason });
+          break;
+        }
+        const execute = () => handlers.run(req, (stream, data) => send(socket, { type: "output", stream, data }));
+        let run: Promise<number>;
+        if (req.readOnly) {
+          run = execute();
+        } else {
+          run = queue.then(execute);
+          queue = run.catch(() => undefined);
+        }
+        let code = 1;
+        try {
+          code = await run;
+        } catch (err: any) {
+          send(socket, { type: "output", stream: "stderr", data: `${err.message}\n` });
+        }
+        commandsServed++;
+        lastActivity = Date.now();
+        lastCommandAt = new Date().toISOString();
+        send(socket, { type: "exit", code });
+        break;
+      }
+      case "stop":
+        send(socket, { type: "reply", ok: true });
+        setImmediate(shutdown);
+        break;
+      default:
+        send(socket, { type: "reply", ok: false, error: "unknown request" });
+    }
+    socket.end();
+  };
+
+  const server = createServer((socket: Socket) => {
+    let data = "";
+    socket.on("data", (chunk) => {
+      data += chunk;
+      const newline = data.indexOf("\n");
+      if (newline < 0) return;
+      socket.removeAllListeners("data");
+      let req: DaemonRequest;
+      try {
+        req = JSON.parse(data.slice(0, newline)) as DaemonRequest;
+      } catch {
+        send(socket, { type: "reply", ok: false, error: "invalid request" });
+        socket.end();
+        return;
+      }
+      void handle(req, socket);
+    });
+    socket.on("error", () => socket.destroy());
+  });
+
+  const idleCheck = setInterval(() => {
+    if (idleTimeoutMs > 0 && Date.now() - lastActivity >= idleTimeoutMs) {
+      shutdown();
+    }
+  }, IDLE_CHECK_INTERVAL_MS);
+
+  function shutdown(): void {
+    clearInterval(idleCheck);
+    server.close();
+  }
+
+  token = await listenPrivate(server, "daemon");
+  await new Promise<void>((resolve) => server.once("close", () => resolve()));
+}
@@ -0,0 +1,313 @@
+/**
+ * Errors - Typed failures from Secret Santa protocol operations
+ *
+ * Every protocol error carries a stable code and a hint on what to do next,
+ * so apps embedding the client can react to a failure without matching on
+ * message text. Contract assertion failures are mapped to the same classes
+ * by toSecretSantaError. Kept free of Node APIs so the web player can use it.
+ */
+
+export type SecretSantaErrorCode =
+  // The contract isn't deployed at the given address
+  | "CONTRACT_NOT_FOUND"
+  // The game doesn't exist
+  | "GAME_NOT_FOUND"
+  // The game isn't in the phase the operation needs
+  | "WRONG_PHASE"
+  // Only the contract admin may do this
+  | "NOT_ADMIN"
+  // The game has reached its maximum participants
+  | "GAME_FULL"
+  // Fewer than 3 participants enrolled, so the game can't start
+  | "NOT_ENOUGH_PARTICIPANTS"
+  // Some participants haven't registered as senders yet
+  | "SENDERS_PENDING"
+  // Some participants haven't claimed a receiver slot yet
+  | "RECEIVERS_PENDING"
+  // The slot number is outside the game's participants, or has no sender
+  | "INVALID_SLOT"
+  // Another sender already holds the slot
+  | "SLOT_TAKEN"
+  // Another receiver already claimed the slot
+  | "RECEIVER_TAKEN"
+  // The account isn't enrolled in the game
+  | "NOT_ENROLLED"
+  // The account hasn't registered as a sender in the game
+  | "NOT_SENDER"
+  // Invalid arguments, e.g. participant limits or delivery data too long
+  | "INVALID_INPUT"
+  // The slot has no delivery data yet
+  | "NO_DELIVERY_DATA"
+  // The slot was registered with another account's key
+  | "NOT_SLOT_OWNER"
+  // The delivery data couldn't be decrypted
+  | "DECRYPTION_FAILED"
+  // A node call or transaction took longer than allowed
+  | "TIMEOUT"
+  // The node failed repeatedly, so calls are paused for a while
+  | "NODE_UNAVAILABLE"
+  // The deployed contract's class differs from the local artifact's
+  | "ARTIFACT_MISMATCH";
+
+export interface SecretSantaErrorOptions {
+  cause?: unknown;
+  // What the user can do about it; defaults to the error class's hint
+  hint?: string;
+}
+
+/**
+ * An error from a Secret Santa protocol operation.
+ */
+export class SecretSantaError extends Error {
+  readonly hint?: string;
+
+  constructor(
+    readonly code: SecretSantaErrorCode,
+    message: string,
+    options: SecretSantaErrorOptions = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.hint = options.hint;
+  }
+}
+
+export class ContractNotFoundError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("CONTRACT_NOT_FOUND", message, {
+      ...options,
+      hint: options.hint ?? "Check the network and contract address, or deploy the contract first.",
+    });
+  }
+}
+
+export class GameNotFoundError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("GAME_NOT_FOUND", message, {
+      ...options,
+      hint: options.hint ?? "Check the game ID.",
+    });
+  }
+}
+
+export class WrongPhaseError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("WRONG_PHASE", message, {
+      ...options,
+      hint: options.hint ?? "Check the game's phase and wait for the admin to advance it.",
+    });
+  }
+}
+
+export class NotAdminError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("NOT_ADMIN", message, {
+      ...options,
+      hint: options.hint ?? "Use the account the contract was deployed with as admin.",
+    });
+  }
+}
+
+export class GameFullError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("GAME_FULL", message, {
+      ...options,
+      hint: options.hint ?? "Ask the admin for a new game, or join another one.",
+    });
+  }
+}
+
+export class NotEnoughParticipantsError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("NOT_ENOUGH_PARTICIPANTS", message, {
+      ...options,
+      hint: options.hint ?? "Wait until at least 3 players have enrolled.",
+    });
+  }
+}
+
+export class SendersPendingError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("SENDERS_PENDING", message, {
+      ...options,
+      hint: options.hint ?? "Wait until every participant has registered as a sender.",
+    });
+  }
+}
+
+export class ReceiversPendingError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("RECEIVERS_PENDING", message, {
+      ...options,
+      hint: options.hint ?? "Wait until every participant has claimed a receiver slot.",
+    });
+  }
+}
+
+export class InvalidSlotError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("INVALID_SLOT", message, {
+      ...options,
+      hint: options.hint ?? "Pick a slot between 1 and the number of participants.",
+    });
+  }
+}
+
+export class SlotTakenError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("SLOT_TAKEN", message, {
+      ...options,
+      hint: options.hint ?? "Pick another slot that is still free.",
+    });
+  }
+}
+
+export class ReceiverTakenError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("RECEIVER_TAKEN", message, {
+      ...options,
+      hint: options.hint ?? "You may have claimed already in this game.",
+    });
+  }
+}
+
+export class NotEnrolledError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("NOT_ENROLLED", message, {
+      ...options,
+      hint: options.hint ?? "Enroll during the join phase, or use the account you enrolled with.",
+    });
+  }
+}
+
+export class NotSenderError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("NOT_SENDER", message, {
+      ...options,
+      hint: options.hint ?? "Register as a sender first, or use the account you registered with.",
+    });
+  }
+}
+
+export class InvalidInputError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("INVALID_INPUT", message, options);
+  }
+}
+
+export class NoDeliveryDataError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("NO_DELIVERY_DATA", message, {
+      ...options,
+      hint: options.hint ?? "The receiver may not have claimed this slot yet.",
+    });
+  }
+}
+
+export class NotSlotOwnerError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("NOT_SLOT_OWNER", message, {
+      ...options,
+      hint: options.hint ?? "Check the slot number, and that you're using the account you registered with.",
+    });
+  }
+}
+
+export class DecryptionFailedError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("DECRYPTION_FAILED", message, {
+      ...options,
+      hint: options.hint ?? "The data may not be encrypted to your key, or may be corrupted.",
+    });
+  }
+}
+
+export class RequestTimeoutError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("TIMEOUT", message, {
+      ...options,
+      hint: options.hint ?? "The node is slow or unreachable. Try again, or allow a longer timeout.",
+    });
+  }
+}
+
+export class NodeUnavailableError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("NODE_UNAVAILABLE", message, {
+      ...options,
+      hint: options.hint ?? "Check your connection and the node URL, then try again in a minute.",
+    });
+  }
+}
+
+export class ArtifactMismatchError extends SecretSantaError {
+  constructor(message: string, options: SecretSantaErrorOptions = {}) {
+    super("ARTIFACT_MISMATCH", message, {
+      ...options,
+      hint:
+        options.hint ??
+        "The contract was deployed from another build of SecretSanta. Use a client built for that deployment, or deploy a new contract.",
+    });
+  }
+}
+
+type ErrorClass = new (message: string, options?: SecretSantaErrorOptions) => SecretSantaError;
+
+// Contract assertion messages (main.nr) and the errors they map to.
+// Longer messages come first where one contains another.
+const CONTRACT_ASSERTIONS: [string, ErrorClass, string?][] = [
+  ["Only admin can create games", NotAdminError],
+  ["Only admin can advance phases", NotAdminError],
+  ["Need at least 3 participants to start", NotEnoughParticipantsError],
+  ["Need at least 3 participants", InvalidInputError, "Use a minimum of 3 or more."],
+  ["Max must be >= min", InvalidInputError, "Set the maximum to at least the minimum."],
+  ["Invalid admin address", InvalidInputError],
+  ["Not all participants have registered as senders", SendersPendingError],
+  ["Not all participants have claimed a receiver slot", ReceiversPendingError],
+  ["Cannot advance from current phase", WrongPhaseError, "The game is already complete."],
+  ["Not in join phase", WrongPhaseError],
+  ["Not in claim phase", WrongPhaseError],
+  ["Not in match phase", WrongPhaseError],
+  ["Game is full", GameFullError],
+  ["Slot must be >= 1", InvalidSlotError],
+  ["Slot exceeds participant count", InvalidSlotError],
+  ["Slot already claimed", SlotTakenError],
+  ["Slot has no sender registered", InvalidSlotError],
+  ["Slot already has a receiver", ReceiverTakenError],
+  ["Not enrolled in this game", NotEnrolledError],
+  ["Not registered as sender", NotSenderError],
+];
+
+/**
+ * Map a failure to its typed error. Contract assertion failures become the
+ * matching SecretSantaError (the assertion text is the message); anything
+ * else is returned unchanged.
+ */
+export function toSecretSantaError(err: unknown): unknown {
+  if (err instanceof SecretSantaError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  for (const [assertion, ErrorClass, hint] of CONTRACT_ASSERTIONS) {
+    if (message.includes(assertion)) {
+      return new ErrorClass(assertion, { cause: err, hint });
+    }
+  }
+  return err;
+}
+
+/**
+ * A failure's message and remediation hint, for showing to users.
+ */
+export function describeError(err: unknown): { message: string; hint?: string } {
+  const mapped = toSecretSantaError(err);
+  if (mapped instanceof SecretSantaError) {
+    return { message: mapped.message, hint: mapped.hint };
+  }
+  return { message: mapped instanceof Error ? mapped.message : String(mapped) };
+}
+
+/**
+ * Check whether an error is a SecretSantaError, optionally with a given code.
+ */
+export function isSecretSantaError(err: unknown, code?: SecretSantaErrorCode): err is SecretSantaError {
+  return err instanceof SecretSantaError && (code === undefined || err.code === code);
+}
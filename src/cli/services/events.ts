@@ -2,12 +2,14 @@
  * Events Service - Fetch and process contract events
  *
  * Provides utilities for fetching SlotClaimed and ReceiverClaimed
- * events from the SecretSanta contract.
+ * events from the SecretSanta contract. Log queries run under the
+ * shared RequestPolicy (timeouts and retries).
  */
 
 import { getDecodedPublicEvents } from "@aztec/aztec.js/events";
 import type { AztecNode } from "@aztec/aztec.js/node";
 import { SecretSantaContract } from "../../../artifacts/SecretSanta.js";
+import { getRequestPolicy } from "./policy.js";
 
 // Type definitions for events (matches generated types)
 export interface SlotClaimedEvent {
@@ -28,11 +30,8 @@ export async function getSlotClaimedEvents(
   fromBlock: number,
   numBlocks: number
 ): Promise<SlotClaimedEvent[]> {
-  return getDecodedPublicEvents<SlotClaimedEvent>(
-    node,
-    SecretSantaContract.events.SlotClaimed,
-    fromBlock,
-    numBlocks
+  return getRequestPolicy().run("SlotClaimed events", () =>
+    getDecodedPublicEvents<SlotClaimedEvent>(node, SecretSantaContract.events.SlotClaimed, fromBlock, numBlocks)
   );
 }
 
@@ -44,11 +43,8 @@ export async function getReceiverClaimedEvents(
   fromBlock: number,
   numBlocks: number
 ): Promise<ReceiverClaimedEvent[]> {
-  return getDecodedPublicEvents<ReceiverClaimedEvent>(
-    node,
-    SecretSantaContract.events.ReceiverClaimed,
-    fromBlock,
-    numBlocks
+  return getRequestPolicy().run("ReceiverClaimed events", () =>
+    getDecodedPublicEvents<ReceiverClaimedEvent>(node, SecretSantaContract.events.ReceiverClaimed, fromBlock, numBlocks)
   );
 }
 
@@ -0,0 +1,170 @@
+/**
+ * Fee Service - How transactions pay for gas
+ *
+ * Strategies (the CLI selects one with --fee-mode, ZK_FEE_MODE or
+ * `config set feeMode`; see utils/fees.ts):
+ * - sponsored: the canonical SponsoredFPC pays (sandbox and devnets)
+ * - fee-juice: the account pays from its own Fee Juice balance
+ * - private-fpc / public-fpc: the account pays an FPC (fpcAddress) in the
+ *   FPC's accepted token, from its private or public balance
+ * Nothing here reads config, so the SDK can use it as is.
+ */
+
+import { Fr } from "@aztec/aztec.js/fields";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { getContractInstanceFromInstantiationParams } from "@aztec/aztec.js/contracts";
+import {
+  FeeJuicePaymentMethod,
+  PrivateFeePaymentMethod,
+  PublicFeePaymentMethod,
+  SponsoredFeePaymentMethod,
+  type FeePaymentMethod,
+} from "@aztec/aztec.js/fee";
+import type { AztecNode } from "@aztec/aztec.js/node";
+import { GasSettings, type Gas } from "@aztec/stdlib/gas";
+import { TestWallet } from "@aztec/test-wallet/server";
+import { SponsoredFPCContractArtifact } from "@aztec/noir-contracts.js/SponsoredFPC";
+import { FPCContractArtifact } from "@aztec/noir-contracts.js/FPC";
+import { SPONSORED_FPC_SALT } from "@aztec/constants";
+import type { FeeMode } from "./config.js";
+
+// Fee options passed to `send`; no payment method means the sender pays in Fee Juice
+export type FeeOptions = { paymentMethod?: FeePaymentMethod };
+
+export interface FeeStrategy {
+  mode: FeeMode;
+  // Who pays, for display
+  description: string;
+  getFeeOptions(wallet: TestWallet, from: AztecAddress): Promise<FeeOptions>;
+  // Fee options for deploying the account itself, which can't pay an FPC yet
+  getAccountDeploymentFeeOptions(wallet: TestWallet, account: AztecAddress): Promise<FeeOptions>;
+}
+
+export interface FeeEstimate {
+  gasLimits: Gas;
+  // Fee at current base fees, in Fee Juice base units (18 decimals)
+  fee: bigint;
+}
+
+// Headroom over current base fees when an FPC needs explicit gas prices
+const FEE_PADDING = 2;
+
+/**
+ * Get the SponsoredFPC contract instance.
+ * This uses the canonical salt to derive the same address as devnet.
+ */
+async function getSponsoredFPCInstance() {
+  return await getContractInstanceFromInstantiationParams(
+    SponsoredFPCContractArtifact,
+    { salt: new Fr(SPONSORED_FPC_SALT) }
+  );
+}
+
+/**
+ * Register the SponsoredFPC contract with the wallet.
+ * This must be done before using sponsored fee payments.
+ */
+export async function registerSponsoredFPC(testWallet: TestWallet): Promise<AztecAddress> {
+  const instance = await getSponsoredFPCInstance();
+
+  // Check if already registered
+  try {
+    const metadata = await testWallet.getContractMetadata(instance.address);
+    if (metadata?.isContractInitialized) {
+      return instance.address;
+    }
+  } catch {
+    // Not registered yet
+  }
+
+  // Register the contract
+  await testWallet.registerContract(instance, SponsoredFPCContractArtifact);
+
+  return instance.address;
+}
+
+/**
+ * Get a sponsored fee payment method.
+ * Call this once per session after registering the FPC.
+ */
+export async function getSponsoredPaymentMethod(testWallet: TestWallet): Promise<SponsoredFeePaymentMethod> {
+  const fpcAddress = await registerSponsoredFPC(testWallet);
+  return new SponsoredFeePaymentMethod(fpcAddress);
+}
+
+/**
+ * Register a token FPC with the wallet, fetching its instance from the node.
+ */
+async function registerFPC(testWallet: TestWallet, node: AztecNode, fpcAddress: AztecAddress): Promise<void> {
+  const instance = await node.getContract(fpcAddress);
+  if (!instance) {
+    throw new Error(`No FPC contract found at ${fpcAddress.toString()}. Check fpcAddress.`);
+  }
+  await testWallet.registerContract(instance, FPCContractArtifact);
+}
+
+const sponsoredStrategy: FeeStrategy = {
+  mode: "sponsored",
+  description: "paid by the SponsoredFPC",
+  async getFeeOptions(wallet) {
+    return { paymentMethod: await getSponsoredPaymentMethod(wallet) };
+  },
+  async getAccountDeploymentFeeOptions(wallet) {
+    return { paymentMethod: await getSponsoredPaymentMethod(wallet) };
+  },
+};
+
+const feeJuiceStrategy: FeeStrategy = {
+  mode: "fee-juice",
+  description: "paid from your Fee Juice balance",
+  async getFeeOptions() {
+    return {};
+  },
+  // The new account pays from Fee Juice already bridged to its address
+  async getAccountDeploymentFeeOptions(_wallet, account) {
+    return { paymentMethod: new FeeJuicePaymentMethod(account) };
+  },
+};
+
+function fpcStrategy(mode: "private-fpc" | "public-fpc", fpcAddress: string | undefined, node: AztecNode): FeeStrategy {
+  const visibility = mode === "private-fpc" ? "private" : "public";
+  return {
+    mode,
+    description: `paid to FPC ${fpcAddress ?? "(not set)"} from your ${visibility} token balance`,
+    async getFeeOptions(wallet, from) {
+      if (!fpcAddress) {
+        throw new Error(`Fee mode ${mode} needs an FPC. Run 'yarn cli config set fpcAddress <address>' or set ZK_FPC.`);
+      }
+      const address = AztecAddress.fromString(fpcAddress);
+      await registerFPC(wallet, node, address);
+
+      const baseFees = await node.getCurrentBaseFees();
+      const gasSettings = GasSettings.default({ maxFeesPerGas: baseFees.mul(FEE_PADDING) });
+      const paymentMethod = mode === "private-fpc"
+        ? new PrivateFeePaymentMethod(address, from, wallet, gasSettings)
+        : new PublicFeePaymentMethod(address, from, wallet, gasSettings);
+      return { paymentMethod };
+    },
+    async getAccountDeploymentFeeOptions() {
+      throw new Error(`New accounts can't be deployed with ${mode}. Deploy it once with --fee-mode sponsored or fee-juice.`);
+    },
+  };
+}
+
+/**
+ * Create the strategy for a fee mode. FPC modes need the FPC's address, and
+ * a node to look it up and read current base fees from. New accounts can't
+ * pay an FPC before they exist, so only sponsored and fee-juice (pre-funded
+ * address) can deploy them.
+ */
+export function createFeeStrategy(mode: FeeMode, node: AztecNode, fpcAddress?: string): FeeStrategy {
+  switch (mode) {
+    case "sponsored":
+      return sponsoredStrategy;
+    case "fee-juice":
+      return feeJuiceStrategy;
+    case "private-fpc":
+    case "public-fpc":
+      return fpcStrategy(mode, fpcAddress, node);
+  }
+}
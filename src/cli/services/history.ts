@@ -0,0 +1,138 @@
+/**
+ * History Service - Receipts of the transactions the CLI sent
+ *
+ * Each profile keeps its own history file, with the hash, status, block,
+ * fee and purpose of every transaction, so a player can later show that
+ * their enrollment or claim landed (`tx list`, `tx show`).
+ */
+
+import { join } from "path";
+import { getActiveProfileName, getConfigDir, getDeploymentKey, loadConfig } from "./config.js";
+import { readJsonFile, withFileLock, writeFileAtomic } from "./storage.js";
+
+/**
+ * One transaction and its receipt.
+ */
+export interface TxRecord {
+  txHash: string;
+  // Contract function or deployment, e.g. "enroll" or "deploy_account"
+  action: string;
+  // What the transaction did
+  description: string;
+  // Receipt status (e.g. "success"), or "failed" if it never mined
+  status: string;
+  blockNumber?: number;
+  blockHash?: string;
+  // Fee paid, in Fee Juice base units (a bigint as a decimal string)
+  fee?: string;
+  // Why it failed, if it did
+  error?: string;
+  // Network name, or node URL for custom endpoints
+  network: string;
+  contractAddress?: string;
+  gameId?: number;
+  account: string;
+  // ISO 8601 timestamps
+  sentAt: string;
+  minedAt?: string;
+}
+
+interface HistoryFile {
+  version: 1;
+  transactions: TxRecord[];
+}
+
+/**
+ * The parts of a mined transaction's receipt that are kept.
+ */
+export interface ReceiptLike {
+  txHash: { toString(): string };
+  status: string;
+  error?: string;
+  blockNumber?: number;
+  blockHash?: { toString(): string };
+  transactionFee?: bigint;
+}
+
+/**
+ * Get the history file for a profile (default: the active one).
+ */
+export function getHistoryPath(profile = getActiveProfileName()): string {
+  return join(getConfigDir(), "history", `${profile}.json`);
+}
+
+function readHistory(path: string): HistoryFile {
+  return readJsonFile<HistoryFile>(path) ?? { version: 1, transactions: [] };
+}
+
+/**
+ * Save a transaction to the active profile's history.
+ * A record with the same hash is replaced (e.g. a retry that mined).
+ */
+export function recordTx(record: Omit<TxRecord, "network">): TxRecord {
+  const path = getHistoryPath();
+  return withFileLock(path, () => {
+    const history = readHistory(path);
+    const entry: TxRecord = { ...record, network: getDeploymentKey(loadConfig()) };
+    history.transactions = history.transactions.filter((tx) => tx.txHash !== entry.txHash);
+    history.transactions.push(entry);
+    writeFileAtomic(path, JSON.stringify(history, null, 2));
+    return entry;
+  });
+}
+
+/**
+ * Save a mined transaction's receipt to the active profile's history.
+ */
+export function recordReceipt(
+  receipt: ReceiptLike,
+  details: Pick<TxRecord, "action" | "description" | "account" | "sentAt" | "contractAddress" | "gameId">
+): TxRecord {
+  return recordTx({
+    ...details,
+    txHash: receipt.txHash.toString(),
+    status: receipt.status,
+    blockNumber: receipt.blockNumber,
+    blockHash: receipt.blockHash?.toString(),
+    fee: receipt.transactionFee?.toString(),
+    error: receipt.error || undefined,
+    minedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Save an account deployment to the active profile's history.
+ */
+export function recordAccountDeployment(receipt: ReceiptLike, account: { toString(): string }, sentAt: string): TxRecord {
+  return recordReceipt(receipt, {
+    action: "deploy_account",
+    description: `Deploys account ${account}`,
+    account: account.toString().toLowerCase(),
+    sentAt,
+  });
+}
+
+/**
+ * List the active profile's transactions, newest first.
+ */
+export function listTxs(filter: { network?: string; gameId?: number } = {}): TxRecord[] {
+  return readHistory(getHistoryPath())
+    .transactions.filter(
+      (tx) =>
+        (filter.network === undefined || tx.network === filter.network) &&
+        (filter.gameId === undefined || tx.gameId === filter.gameId)
+    )
+    .sort((a, b) => b.sentAt.localeCompare(a.sentAt));
+}
+
+/**
+ * Find a transaction by its hash or a unique prefix of it.
+ */
+export function findTx(hash: string): TxRecord | undefined {
+  const prefix = hash.toLowerCase();
+  const matches = readHistory(getHistoryPath()).transactions.filter((tx) => tx.txHash.toLowerCase().startsWith(prefix));
+  if (matches.length > 1) {
+    throw new Error(`${matches.length} transactions start with ${hash}; give more of the hash.`);
+  }
+  return matches[0];
+}
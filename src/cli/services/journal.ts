@@ -0,0 +1,118 @@
+/**
+ * Journal Service - Remembers what a player did in each game
+ *
+ * Records enrollment, the chosen sender slot, the derived receiver slot
+ * and the transactions sent, keyed by network + contract + game + account.
+ * Player commands read it so slots don't have to be typed in again
+ * (the web player keeps the same data in localStorage).
+ */
+
+import { join } from "path";
+import { getConfigDir, getDeploymentKey, loadConfig } from "./config.js";
+import { readJsonFile, withFileLock, writeFileAtomic } from "./storage.js";
+
+export type JournalAction = "enroll" | "register" | "claim";
+
+/**
+ * A transaction sent for a journal action.
+ */
+export interface JournalTx {
+  txHash: string;
+  // ISO 8601 timestamp of when the transaction was mined
+  timestamp: string;
+}
+
+/**
+ * Identifies one player in one game.
+ */
+export interface JournalKey {
+  // Network name, or node URL for custom endpoints
+  network: string;
+  contractAddress: string;
+  gameId: number;
+  account: string;
+}
+
+export interface JournalEntry extends JournalKey {
+  senderSlot?: number;
+  receiverSlot?: number;
+  actions: Partial<Record<JournalAction, JournalTx>>;
+  updatedAt: string;
+}
+
+interface JournalFile {
+  version: 1;
+  entries: Record<string, JournalEntry>;
+}
+
+/**
+ * Get the journal file location.
+ */
+export function getJournalPath(): string {
+  return join(getConfigDir(), "journal.json");
+}
+
+/**
+ * Build the journal key for a game on the current network.
+ */
+export function getJournalKey(contractAddress: string, gameId: number, account: { toString(): string }): JournalKey {
+  return {
+    network: getDeploymentKey(loadConfig()),
+    contractAddress: contractAddress.toLowerCase(),
+    gameId,
+    account: account.toString().toLowerCase(),
+  };
+}
+
+function entryId(key: JournalKey): string {
+  return [key.network, key.contractAddress, key.gameId, key.account].join("|");
+}
+
+function readJournal(): JournalFile {
+  return readJsonFile<JournalFile>(getJournalPath()) ?? { version: 1, entries: {} };
+}
+
+/**
+ * Get the journal entry for a player in a game, if any.
+ */
+export function getJournalEntry(key: JournalKey): JournalEntry | undefined {
+  return readJournal().entries[entryId(key)];
+}
+
+/**
+ * List journal entries matching the given key fields, oldest first.
+ */
+export function listJournalEntries(filter: Partial<JournalKey> = {}): JournalEntry[] {
+  return Object.values(readJournal().entries)
+    .filter((entry) =>
+      (Object.keys(filter) as Array<keyof JournalKey>).every((field) => filter[field] === undefined || entry[field] === filter[field])
+    )
+    .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+}
+
+/**
+ * Record slots and/or a transaction for a player in a game.
+ */
+export function recordJournal(
+  key: JournalKey,
+  update: { senderSlot?: number; receiverSlot?: number; action?: JournalAction; txHash?: string }
+): JournalEntry {
+  const path = getJournalPath();
+  return withFileLock(path, () => {
+    const journal = readJournal();
+    const id = entryId(key);
+    const now = new Date().toISOString();
+
+    const entry: JournalEntry = journal.entries[id] ?? { ...key, actions: {}, updatedAt: now };
+    if (update.senderSlot !== undefined) entry.senderSlot = update.senderSlot;
+    if (update.receiverSlot !== undefined) entry.receiverSlot = update.receiverSlot;
+    if (update.action && update.txHash) {
+      entry.actions[update.action] = { txHash: update.txHash, timestamp: now };
+    }
+    entry.updatedAt = now;
+
+    journal.entries[id] = entry;
+    writeFileAtomic(path, JSON.stringify(journal, null, 2));
+    return entry;
+  });
+}
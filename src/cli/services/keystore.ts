@@ -0,0 +1,180 @@
+/**
+ * Keystore Service - Encrypted account secret keys on disk
+ *
+ * Each wallet's secret key is encrypted with AES-256-GCM under a key
+ * derived from the wallet password with scrypt, and stored in
+ * `keystore.json` in the config directory (readable by the owner only).
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "crypto";
+import { join } from "path";
+import { getConfigDir, WALLET_NAME_PATTERN } from "./config.js";
+import { readJsonFile, withFileLock, writeFileAtomic } from "./storage.js";
+
+// How a wallet's secret key was obtained
+export type WalletSource = "random" | "passphrase-v1" | "passphrase-v2" | "secret-key";
+
+// scrypt cost parameters
+export interface ScryptCost {
+  N: number;
+  r: number;
+  p: number;
+}
+
+/**
+ * Encrypted secret key with everything needed to decrypt it except the password.
+ */
+interface EncryptedKey {
+  kdf: "scrypt";
+  kdfParams: ScryptCost & { salt: string };
+  cipher: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+export interface KeystoreWallet {
+  name: string;
+  address: string;
+  source: WalletSource;
+  createdAt: string;
+}
+
+interface StoredWallet extends KeystoreWallet {
+  crypto: EncryptedKey;
+}
+
+interface KeystoreFile {
+  version: 1;
+  wallets: Record<string, StoredWallet>;
+}
+
+// scrypt cost for the password key (128 MiB)
+const PASSWORD_KDF_PARAMS: ScryptCost = { N: 2 ** 17, r: 8, p: 1 };
+
+// Owner read/write only
+const KEYSTORE_FILE_MODE = 0o600;
+
+/**
+ * Get the keystore file location.
+ */
+export function getKeystorePath(): string {
+  return join(getConfigDir(), "keystore.json");
+}
+
+function readKeystore(): KeystoreFile {
+  return readJsonFile<KeystoreFile>(getKeystorePath()) ?? { version: 1, wallets: {} };
+}
+
+// Plain byte arrays; the crypto typings reject Buffer under newer TypeScript
+function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, "hex"));
+}
+
+/**
+ * Derive the encryption key for a wallet password.
+ */
+function derivePasswordKey(password: string, params: EncryptedKey["kdfParams"]): Promise<Uint8Array> {
+  const { N, r, p, salt } = params;
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), fromHex(salt), 32, { N, r, p, maxmem: 256 * N * r }, (err, key) =>
+      err ? reject(err) : resolve(Uint8Array.from(key))
+    );
+  });
+}
+
+async function encryptSecretKey(secretKey: Buffer, password: string, cost: ScryptCost): Promise<EncryptedKey> {
+  const kdfParams = { ...cost, salt: randomBytes(16).toString("hex") };
+  const key = await derivePasswordKey(password, kdfParams);
+  const iv = randomBytes(12).toString("hex");
+
+  const cipher = createCipheriv("aes-256-gcm", key, fromHex(iv));
+  const ciphertext = cipher.update(secretKey.toString("hex"), "hex", "hex") + cipher.final("hex");
+
+  return {
+    kdf: "scrypt",
+    kdfParams,
+    cipher: "aes-256-gcm",
+    iv,
+    tag: cipher.getAuthTag().toString("hex"),
+    ciphertext,
+  };
+}
+
+async function decryptSecretKey(encrypted: EncryptedKey, password: string): Promise<Buffer> {
+  const key = await derivePasswordKey(password, encrypted.kdfParams);
+  const decipher = createDecipheriv("aes-256-gcm", key, fromHex(encrypted.iv));
+  decipher.setAuthTag(fromHex(encrypted.tag));
+  try {
+    return Buffer.from(decipher.update(encrypted.ciphertext, "hex", "hex") + decipher.final("hex"), "hex");
+  } catch {
+    throw new Error("Wrong password");
+  }
+}
+
+/**
+ * List the wallets in the keystore (without secrets).
+ */
+export function listKeystoreWallets(): KeystoreWallet[] {
+  return Object.values(readKeystore().wallets).map(({ name, address, source, createdAt }) => ({
+    name,
+    address,
+    source,
+    createdAt,
+  }));
+}
+
+/**
+ * Get a wallet from the keystore by name, or undefined.
+ */
+export function getKeystoreWallet(name: string): KeystoreWallet | undefined {
+  return listKeystoreWallets().find((wallet) => wallet.name === name);
+}
+
+/**
+ * Encrypt a secret key with a password and add it to the keystore.
+ * The scrypt cost is stored with the wallet; lower it only in tests.
+ */
+export async function addKeystoreWallet(
+  name: string,
+  secretKey: Buffer,
+  address: string,
+  source: WalletSource,
+  password: string,
+  cost: ScryptCost = PASSWORD_KDF_PARAMS
+): Promise<KeystoreWallet> {
+  if (!WALLET_NAME_PATTERN.test(name)) {
+    throw new Error("Wallet names may only contain letters, numbers, '-' and '_'.");
+  }
+  if (getKeystoreWallet(name)) {
+    throw new Error(`Wallet "${name}" already exists.`);
+  }
+
+  // Encrypt before taking the lock; scrypt is slow on purpose
+  const crypto = await encryptSecretKey(secretKey, password, cost);
+  const wallet: StoredWallet = { name, address, source, createdAt: new Date().toISOString(), crypto };
+
+  const path = getKeystorePath();
+  withFileLock(path, () => {
+    const keystore = readKeystore();
+    if (keystore.wallets[name]) {
+      throw new Error(`Wallet "${name}" already exists.`);
+    }
+    keystore.wallets[name] = wallet;
+    writeFileAtomic(path, JSON.stringify(keystore, null, 2), KEYSTORE_FILE_MODE);
+  });
+
+  const { crypto: _, ...info } = wallet;
+  return info;
+}
+
+/**
+ * Decrypt a wallet's secret key with its password.
+ */
+export async function unlockKeystoreWallet(name: string, password: string): Promise<Buffer> {
+  const wallet = readKeystore().wallets[name];
+  if (!wallet) {
+    throw new Error(`Wallet "${name}" not found. Run 'yarn cli wallet list' to see your wallets.`);
+  }
+  return decryptSecretKey(wallet.crypto, password);
+}
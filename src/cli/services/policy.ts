@@ -0,0 +1,175 @@
+/**
+ * Request Policy - Timeouts, retries and a circuit breaker for node calls
+ *
+ * Every call gets a timeout per attempt. Transient failures (timeouts,
+ * dropped connections, overloaded nodes) are retried with exponential
+ * backoff and jitter; contract assertions and other errors fail at once.
+ * After repeated transient failures the circuit opens and calls fail fast
+ * until a cooldown has passed, so a dead node doesn't hang every command.
+ * Kept free of Node APIs so the web player can use it.
+ */
+
+import { NodeUnavailableError, RequestTimeoutError, SecretSantaError, toSecretSantaError } from "./errors.js";
+
+export interface RequestPolicyOptions {
+  // Time allowed for each attempt of a read or simulation
+  timeoutMs: number;
+  // Time allowed for a sent transaction to be proved and mined
+  sendTimeoutMs: number;
+  // Attempts per call, including the first
+  maxAttempts: number;
+  // Delay before the first retry; doubles with each retry up to maxBackoffMs
+  backoffMs: number;
+  maxBackoffMs: number;
+  // Transient failures in a row that open the circuit
+  breakerThreshold: number;
+  // How long the open circuit rejects calls before letting one through
+  breakerCooldownMs: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicyOptions = {
+  timeoutMs: 30_000,
+  sendTimeoutMs: 600_000,
+  maxAttempts: 3,
+  backoffMs: 500,
+  maxBackoffMs: 8_000,
+  breakerThreshold: 5,
+  breakerCooldownMs: 30_000,
+};
+
+export interface RequestOptions {
+  // Retry transient failures (default true). Off for sends, which must not be repeated.
+  retry?: boolean;
+  // Replaces the policy's timeout for this call
+  timeoutMs?: number;
+}
+
+// Error codes and messages of failures worth retrying
+const TRANSIENT_ERROR =
+  /ECONNREFUSED|ECONNRESET|ETIMEDOUT|EAI_AGAIN|ENOTFOUND|EPIPE|UND_ERR|socket hang up|fetch failed|network error|timed? ?out|\b(429|502|503|504)\b|too many requests|bad gateway|service unavailable/i;
+
+/**
+ * Check whether a failure is likely to go away on its own, e.g. a timeout
+ * or dropped connection, as opposed to a contract assertion or bad input.
+ */
+export function isTransientError(err: unknown): boolean {
+  if (err instanceof RequestTimeoutError || err instanceof NodeUnavailableError) return true;
+  if (toSecretSantaError(err) instanceof SecretSantaError) return false;
+  const { code, message, cause } = (err ?? {}) as { code?: unknown; message?: unknown; cause?: any };
+  const text = [code, message ?? String(err), cause?.code, cause?.message].filter(Boolean).join(" ");
+  return TRANSIENT_ERROR.test(text);
+}
+
+function formatSeconds(ms: number): string {
+  return `${Math.round(ms / 100) / 10}s`;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Reject with a RequestTimeoutError if the promise hasn't settled in time.
+ * The call itself can't be cancelled; its late result is ignored.
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      promise.catch(() => {});
+      reject(new RequestTimeoutError(`${label} timed out after ${formatSeconds(timeoutMs)}`));
+    }, timeoutMs);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      }
+    );
+  });
+}
+
+/**
+ * Runs node calls under one set of timeouts and retry rules, with a circuit
+ * breaker shared by every call made through it.
+ */
+export class RequestPolicy {
+  private options: RequestPolicyOptions;
+  // Transient failures in a row, across calls
+  private failures = 0;
+  // While the circuit is open, calls fail fast until this time
+  private openUntil = 0;
+
+  constructor(options: Partial<RequestPolicyOptions> = {}) {
+    this.options = { ...DEFAULT_REQUEST_POLICY, ...options };
+  }
+
+  get settings(): Readonly<RequestPolicyOptions> {
+    return this.options;
+  }
+
+  /**
+   * Change settings, keeping the circuit's state.
+   */
+  configure(options: Partial<RequestPolicyOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Run a call, retrying transient failures with backoff.
+   * The label names the call in timeout and circuit errors.
+   */
+  async run<T>(label: string, call: () => Promise<T>, options: RequestOptions = {}): Promise<T> {
+    const attempts = options.retry === false ? 1 : Math.max(1, this.options.maxAttempts);
+    const timeoutMs = options.timeoutMs ?? this.options.timeoutMs;
+
+    for (let attempt = 1; ; attempt++) {
+      if (this.failures >= this.options.breakerThreshold && Date.now() < this.openUntil) {
+        throw new NodeUnavailableError(
+          `Skipped ${label}: the node failed ${this.failures} times in a row, pausing calls for ` +
+            formatSeconds(this.openUntil - Date.now())
+        );
+      }
+
+      try {
+        const result = await withTimeout(call(), timeoutMs, label);
+        this.failures = 0;
+        return result;
+      } catch (err) {
+        if (!isTransientError(err)) {
+          // The node answered, so it's up
+          this.failures = 0;
+          throw err;
+        }
+        this.failures++;
+        if (this.failures >= this.options.breakerThreshold) {
+          this.openUntil = Date.now() + this.options.breakerCooldownMs;
+        }
+        if (attempt >= attempts) throw err;
+        await delay(this.backoff(attempt));
+      }
+    }
+  }
+
+  /**
+   * Delay before a retry: exponential, capped, with half of it random so
+   * clients that failed together don't retry together.
+   */
+  private backoff(attempt: number): number {
+    const cap = Math.min(this.options.maxBackoffMs, this.options.backoffMs * 2 ** (attempt - 1));
+    return cap / 2 + Math.random() * (cap / 2);
+  }
+}
+
+// Used by the service functions unless they're given another policy
+const sharedPolicy = new RequestPolicy();
+
+/**
+ * Get the policy shared by calls that aren't given their own.
+ */
+export function getRequestPolicy(): RequestPolicy {
+  return sharedPolicy;
+}
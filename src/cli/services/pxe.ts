@@ -0,0 +1,168 @@
+/**
+ * PXE Service - Persistent wallet state between CLI runs
+ *
+ * Each network + account gets its own kv-store under the config directory
+ * (like `setupPXE` in src/ts/utils.ts does for tests), so registered
+ * contracts, synced notes and the account survive across invocations.
+ * Startup times are recorded so `info` can show what the cache saves.
+ */
+
+import { existsSync, readdirSync, rmSync, statSync } from "fs";
+import { join } from "path";
+import { createStore, type AztecLMDBStoreV2 } from "@aztec/kv-store/lmdb-v2";
+import { getConfigDir, getDeploymentKey, loadConfig } from "./config.js";
+import { readJsonFile, withFileLock, writeFileAtomic } from "./storage.js";
+
+// Bump to start from empty stores when the stored data changes shape
+const PXE_STORE_VERSION = 2;
+
+// Max size of one store's memory map (1 GB)
+const PXE_STORE_MAP_SIZE_KB = 1e6;
+
+// Store used before an account is known (e.g. wallet migrate)
+const SHARED_NAMESPACE = "shared";
+
+/**
+ * Startup times recorded for one store.
+ */
+export interface PXEStartupStats {
+  // First run, with an empty store
+  coldStartMs?: number;
+  // Most recent run that reused the store
+  warmStartMs?: number;
+  updatedAt: string;
+}
+
+interface PXEStatsFile {
+  version: 1;
+  stores: Record<string, PXEStartupStats>;
+}
+
+export interface PXEStoreInfo {
+  network: string;
+  account: string;
+  sizeBytes: number;
+  stats?: PXEStartupStats;
+}
+
+/**
+ * Get the root directory holding all PXE stores.
+ */
+export function getPXECacheDir(): string {
+  return join(getConfigDir(), "pxe");
+}
+
+function getStatsPath(): string {
+  return join(getPXECacheDir(), "stats.json");
+}
+
+// Node URLs aren't valid directory names
+function toDirName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9.-]+/g, "_");
+}
+
+/**
+ * Get the store directory for an account on the current network.
+ */
+export function getPXEStoreDir(account?: { toString(): string }): string {
+  const network = getDeploymentKey(loadConfig());
+  return join(getPXECacheDir(), toDirName(network), account ? toDirName(account.toString()) : SHARED_NAMESPACE);
+}
+
+/**
+ * Open (or create) the store for an account on the current network.
+ * `cold` is true when the store didn't exist yet.
+ */
+export async function openPXEStore(account?: { toString(): string }): Promise<{ store: AztecLMDBStoreV2; dir: string; cold: boolean }> {
+  const dir = getPXEStoreDir(account);
+  const cold = !existsSync(dir);
+  const store = await createStore("pxe", PXE_STORE_VERSION, {
+    dataDirectory: dir,
+    dataStoreMapSizeKb: PXE_STORE_MAP_SIZE_KB,
+  });
+  return { store, dir, cold };
+}
+
+function statsId(dir: string): string {
+  return dir.slice(getPXECacheDir().length + 1).split(/[\\/]/).join("/");
+}
+
+function readStats(): PXEStatsFile {
+  return readJsonFile<PXEStatsFile>(getStatsPath()) ?? { version: 1, stores: {} };
+}
+
+/**
+ * Record how long a wallet took to become ready with a store.
+ */
+export function recordPXEStartup(dir: string, ms: number, cold: boolean): void {
+  const path = getStatsPath();
+  withFileLock(path, () => {
+    const file = readStats();
+    const id = statsId(dir);
+    const stats = file.stores[id] ?? { updatedAt: "" };
+    if (cold) {
+      stats.coldStartMs = ms;
+    } else {
+      stats.warmStartMs = ms;
+    }
+    stats.updatedAt = new Date().toISOString();
+    file.stores[id] = stats;
+    writeFileAtomic(path, JSON.stringify(file, null, 2) + "\n");
+  });
+}
+
+function dirSize(path: string): number {
+  let total = 0;
+  for (const entry of readdirSync(path, { withFileTypes: true })) {
+    const child = join(path, entry.name);
+    total += entry.isDirectory() ? dirSize(child) : statSync(child).size;
+  }
+  return total;
+}
+
+function listDirs(path: string): string[] {
+  if (!existsSync(path)) return [];
+  return readdirSync(path, { withFileTypes: true }).filter((e) => e.isDirectory()).map((e) => e.name);
+}
+
+/**
+ * List the stores on disk, optionally only those for the current network.
+ */
+export function listPXEStores(currentNetworkOnly: boolean = false): PXEStoreInfo[] {
+  const root = getPXECacheDir();
+  const { stores } = readStats();
+  const current = toDirName(getDeploymentKey(loadConfig()));
+  const networks = currentNetworkOnly ? listDirs(root).filter((n) => n === current) : listDirs(root);
+
+  return networks.flatMap((network) =>
+    listDirs(join(root, network)).map((account) => ({
+      network,
+      account,
+      sizeBytes: dirSize(join(root, network, account)),
+      stats: stores[`${network}/${account}`],
+    }))
+  );
+}
+
+/**
+ * Delete cached stores: all of them, or only the current network's.
+ * Returns how many stores were removed.
+ */
+export function clearPXECache(currentNetworkOnly: boolean = false): number {
+  const path = getStatsPath();
+  return withFileLock(path, () => {
+    const removed = listPXEStores(currentNetworkOnly);
+    if (!currentNetworkOnly) {
+      rmSync(getPXECacheDir(), { recursive: true, force: true });
+      return removed.length;
+    }
+
+    const file = readStats();
+    for (const { network, account } of removed) {
+      rmSync(join(getPXECacheDir(), network, account), { recursive: true, force: true });
+      delete file.stores[`${network}/${account}`];
+    }
+    writeFileAtomic(path, JSON.stringify(file, null, 2) + "\n");
+    return removed.length;
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * Socket Service - Private local sockets for background processes
+ *
+ * The wallet agent and the daemon answer requests over a local socket. On
+ * Unix it lives in a directory only the owner can enter, made private
+ * before the server listens, so no other user can reach the socket even
+ * for a moment. Named pipes on Windows get a default ACL, so there each
+ * request must also carry a token the server writes to the config directory.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { chmodSync, existsSync, mkdirSync, readFileSync, rmSync, statSync, unlinkSync } from "fs";
+import type { Server } from "net";
+import { dirname, join } from "path";
+import { getConfigDir } from "./config.js";
+import { writeFileAtomic } from "./storage.js";
+
+// Owner only
+const SOCKET_DIR_MODE = 0o700;
+const TOKEN_FILE_MODE = 0o600;
+
+/**
+ * Get the socket path for a background process in the current config directory.
+ */
+export function getSocketPath(name: string): string {
+  if (process.platform === "win32") {
+    // Named pipes live in their own namespace; key them by config dir
+    const id = createHash("sha256").update(getConfigDir()).digest("hex").slice(0, 16);
+    return `\\\\.\\pipe\\zk-santa-${name}-${id}`;
+  }
+  return join(getConfigDir(), "run", `${name}.sock`);
+}
+
+function getTokenPath(name: string): string {
+  return join(getConfigDir(), `${name}.token`);
+}
+
+/**
+ * Create the socket directory readable by the owner only, refusing one
+ * that belongs to someone else.
+ */
+function ensurePrivateDir(dir: string): void {
+  mkdirSync(dir, { recursive: true, mode: SOCKET_DIR_MODE });
+  const stats = statSync(dir);
+  if (process.getuid && stats.uid !== process.getuid()) {
+    throw new Error(`${dir} belongs to another user`);
+  }
+  if ((stats.mode & 0o777) !== SOCKET_DIR_MODE) {
+    chmodSync(dir, SOCKET_DIR_MODE);
+  }
+}
+
+/**
+ * Start a server on a private socket. Resolves with the token clients must
+ * send, which is empty where the socket's directory already keeps others out.
+ */
+export async function listenPrivate(server: Server, name: string): Promise<string> {
+  const path = getSocketPath(name);
+  let token = "";
+  if (process.platform === "win32") {
+    token = randomBytes(32).toString("hex");
+    writeFileAtomic(getTokenPath(name), token, TOKEN_FILE_MODE);
+    server.once("close", () => rmSync(getTokenPath(name), { force: true }));
+  } else {
+    ensurePrivateDir(dirname(path));
+    // A socket file left by a process that died
+    if (existsSync(path)) {
+      unlinkSync(path);
+    }
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(path, () => resolve());
+  });
+  return token;
+}
+
+/**
+ * Read the token to send to a background process ("" if it needs none).
+ */
+export function readSocketToken(name: string): string {
+  if (process.platform !== "win32") return "";
+  try {
+    return readFileSync(getTokenPath(name), "utf-8").trim();
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Check a request's token against the server's.
+ */
+export function isAuthorized(token: string, given: unknown): boolean {
+  if (!token) return true;
+  if (typeof given !== "string" || given.length !== token.length) return false;
+  // Plain byte arrays; the crypto typings reject Buffer under newer TypeScript
+  return timingSafeEqual(Uint8Array.from(Buffer.from(given)), Uint8Array.from(Buffer.from(token)));
+}
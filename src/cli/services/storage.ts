@@ -0,0 +1,217 @@
+/**
+ * Storage Service - Safe local file persistence
+ *
+ * Atomic writes and advisory file locks shared by the config, journal
+ * and other files the CLI keeps on disk, so several `yarn cli` processes
+ * can run at once without clobbering each other.
+ */
+
+import {
+  existsSync,
+  readFileSync,
+  mkdirSync,
+  openSync,
+  writeSync,
+  fsyncSync,
+  closeSync,
+  renameSync,
+  rmSync,
+  statSync,
+} from "fs";
+import { randomBytes } from "crypto";
+import { dirname } from "path";
+
+// How long to wait for another process to release a lock
+const LOCK_TIMEOUT_MS = 10_000;
+// Locks older than this are assumed to be left over from a crashed process
+const LOCK_STALE_MS = 30_000;
+
+/**
+ * Create the parent directory of a path if needed.
+ */
+function ensureParentDir(path: string): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+}
+
+/**
+ * Write a file by writing a temp file and renaming it into place,
+ * so readers never see a partially written file.
+ */
+export function writeFileAtomic(path: string, contents: string, mode?: number): void {
+  ensureParentDir(path);
+
+  const tempPath = `${path}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+  try {
+    const fd = openSync(tempPath, "w", mode);
+    try {
+      writeSync(fd, contents);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tempPath, path);
+  } catch (error) {
+    rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Read and parse a JSON file, returning null if it doesn't exist.
+ */
+export function readJsonFile<T>(path: string): T | null {
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as T;
+  } catch (error: any) {
+    throw new Error(`${path} is not valid JSON (${error.message})`);
+  }
+}
+
+/**
+ * Block the current thread for a few milliseconds.
+ */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Check whether a process is still running.
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM: it exists but belongs to another user
+    return error.code === "EPERM";
+  }
+}
+
+/**
+ * Read who holds a lock: "<pid> <token>", or null if it was released.
+ */
+function readLockOwner(lockPath: string): string | null {
+  try {
+    return readFileSync(lockPath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a lock was left behind by a process that is gone.
+ * A live holder keeps its lock however long it takes; the age only
+ * counts for a lock whose holder died before writing its pid.
+ */
+function isStaleLock(lockPath: string, owner: string): boolean {
+  const pid = parseInt(owner, 10);
+  if (pid > 0) {
+    return !isProcessAlive(pid);
+  }
+  return lockAge(lockPath) > LOCK_STALE_MS;
+}
+
+/**
+ * Milliseconds since a lock was taken, or 0 if it is gone.
+ */
+function lockAge(lockPath: string): number {
+  try {
+    return Date.now() - statSync(lockPath).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Create a lock file exclusively, recording this process as its holder.
+ * Returns false if it already exists.
+ */
+function tryCreateLock(lockPath: string, owner: string): boolean {
+  let fd: number;
+  try {
+    fd = openSync(lockPath, "wx");
+  } catch (error: any) {
+    if (error.code === "EEXIST") return false;
+    throw error;
+  }
+  try {
+    writeSync(fd, owner);
+  } finally {
+    closeSync(fd);
+  }
+  return true;
+}
+
+/**
+ * Remove a lock if it is still held by `owner`.
+ */
+function removeLock(lockPath: string, owner: string): void {
+  if (readLockOwner(lockPath) === owner) {
+    rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * Remove a stale lock. Waiters that found it stale at the same time take
+ * turns through a `<lock>.break` lock, and each checks the lock still has
+ * the dead holder, so none of them removes a lock another just acquired.
+ * Returns false if another waiter is breaking it.
+ */
+function breakStaleLock(lockPath: string, staleOwner: string, owner: string): boolean {
+  const breakPath = `${lockPath}.break`;
+  if (!tryCreateLock(breakPath, owner)) {
+    // Only held for a moment, so a leftover one is cleared once it's old
+    const breaker = readLockOwner(breakPath);
+    if (breaker !== null && isStaleLock(breakPath, breaker) && lockAge(breakPath) > LOCK_STALE_MS) {
+      removeLock(breakPath, breaker);
+    }
+    return false;
+  }
+  try {
+    removeLock(lockPath, staleOwner);
+  } finally {
+    removeLock(breakPath, owner);
+  }
+  return true;
+}
+
+/**
+ * Run a function while holding the advisory lock for a file.
+ * The lock is a `<file>.lock` file created exclusively; other processes
+ * retry with jittered backoff until it is released.
+ */
+export function withFileLock<T>(path: string, fn: () => T): T {
+  const lockPath = `${path}.lock`;
+  ensureParentDir(lockPath);
+
+  // Tells this acquisition apart from earlier ones by the same process
+  const owner = `${process.pid} ${randomBytes(8).toString("hex")}\n`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  let delay = 5;
+  for (;;) {
+    try {
+      if (tryCreateLock(lockPath, owner)) break;
+    } catch (error: any) {
+      throw new Error(`Failed to lock ${path}: ${error.message}`);
+    }
+
+    const holder = readLockOwner(lockPath);
+    if (holder === null) continue;
+    if (isStaleLock(lockPath, holder) && breakStaleLock(lockPath, holder, owner)) continue;
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}. If no other zk-santa command is running, delete it.`);
+    }
+    sleepSync(delay + Math.random() * delay);
+    delay = Math.min(delay * 2, 100);
+  }
+
+  try {
+    return fn();
+  } finally {
+    removeLock(lockPath, owner);
+  }
+}
@@ -1,69 +1,96 @@
 /**
- * Wallet Service - Creates deterministic accounts from passphrases
+ * Wallet Service - Creates deterministic accounts from passphrases and keys
  *
- * Uses Poseidon hash to convert passphrase to a secret key,
- * then creates a Schnorr account that can be used to interact with contracts.
+ * Derives a secret key from the passphrase, then creates a Schnorr account
+ * that can be used to interact with contracts.
+ *
+ * Key derivation is versioned:
+ * - v1 (legacy): passphrase padded with '#', reduced into a field, Poseidon2 hashed
+ * - v2: scrypt (memory-hard) salted with the player's username
+ * The web player implements the same derivations, so accounts match across both.
  */
 
 import { Fr } from "@aztec/aztec.js/fields";
+import { Fq } from "@aztec/foundation/curves/bn254";
+import type { GrumpkinScalar } from "@aztec/foundation/curves/grumpkin";
 import { AztecAddress } from "@aztec/aztec.js/addresses";
-import { getContractInstanceFromInstantiationParams } from "@aztec/aztec.js/contracts";
 import { poseidon2Hash } from "@aztec/foundation/crypto/poseidon";
 import { TestWallet } from "@aztec/test-wallet/server";
 import type { AccountManager } from "@aztec/aztec.js/wallet";
+import type { TxReceipt } from "@aztec/aztec.js/tx";
 import { deriveSigningKey, derivePublicKeyFromSecretKey } from "@aztec/stdlib/keys";
-import { SponsoredFeePaymentMethod } from "@aztec/aztec.js/fee";
-import { SponsoredFPCContractArtifact } from "@aztec/noir-contracts.js/SponsoredFPC";
-import { SPONSORED_FPC_SALT } from "@aztec/constants";
+import { getSchnorrAccountContractAddress } from "@aztec/accounts/schnorr";
+import { randomBytes, scrypt } from "crypto";
+import type { KeyDerivation } from "./config.js";
+import type { FeeStrategy } from "./fees.js";
+
+// Fixed salt for deterministic addresses
+const ACCOUNT_SALT = Fr.ONE;
+
+// Derivation used by accounts created before versioned key derivation
+export const LEGACY_KEY_DERIVATION: KeyDerivation = { version: 1 };
+
+// Admin passphrase that `setup --full-deploy` used to hardcode; it is public,
+// so anyone can sign as the admin of contracts deployed with it
+export const WELL_KNOWN_ADMIN_PASSPHRASE = "secret-santa-admin";
+
+// v2 username for admin backup phrases made by `setup --full-deploy`
+export const ADMIN_BACKUP_USER = "zk-santa-admin";
+
+// scrypt cost parameters for v2 (128 MiB, ~0.5-1s per derivation)
+export const SCRYPT_PARAMS = { N: 2 ** 17, r: 8, p: 1 } as const;
 
 /**
- * Get the SponsoredFPC contract instance.
- * This uses the canonical salt to derive the same address as devnet.
+ * Build the v2 salt from a username.
+ * Usernames are case-insensitive so "Alice" and "alice " match.
  */
-async function getSponsoredFPCInstance() {
-  return await getContractInstanceFromInstantiationParams(
-    SponsoredFPCContractArtifact,
-    { salt: new Fr(SPONSORED_FPC_SALT) }
-  );
+export function usernameToSalt(user: string): string {
+  return `zk-secret-santa:v2:${user.trim().toLowerCase().normalize("NFKC")}`;
 }
 
 /**
- * Register the SponsoredFPC contract with the wallet.
- * This must be done before using sponsored fee payments.
+ * Derive a secret key with the memory-hard v2 KDF.
  */
-export async function registerSponsoredFPC(testWallet: TestWallet): Promise<AztecAddress> {
-  const instance = await getSponsoredFPCInstance();
-
-  // Check if already registered
-  try {
-    const metadata = await testWallet.getContractMetadata(instance.address);
-    if (metadata?.isContractInitialized) {
-      return instance.address;
-    }
-  } catch {
-    // Not registered yet
-  }
-
-  // Register the contract
-  await testWallet.registerContract(instance, SponsoredFPCContractArtifact);
+export async function deriveSecretKeyV2(passphrase: string, user: string): Promise<Fr> {
+  const { N, r, p } = SCRYPT_PARAMS;
+  const derived = await new Promise<Buffer>((resolve, reject) => {
+    scrypt(passphrase.normalize("NFKC"), usernameToSalt(user), 32, { N, r, p, maxmem: 256 * N * r }, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+  return Fr.fromBufferReduce(derived);
+}
 
-  return instance.address;
+/**
+ * Generate a random backup phrase: 8 groups of 4 hex digits (128 bits).
+ */
+export function generateBackupPhrase(): string {
+  return randomBytes(16).toString("hex").match(/.{4}/g)!.join("-");
 }
 
 /**
- * Get a sponsored fee payment method.
- * Call this once per session after registering the FPC.
+ * Derive the admin account key for a backup phrase from `setup --full-deploy`.
  */
-export async function getSponsoredPaymentMethod(testWallet: TestWallet): Promise<SponsoredFeePaymentMethod> {
-  const fpcAddress = await registerSponsoredFPC(testWallet);
-  return new SponsoredFeePaymentMethod(fpcAddress);
+export async function deriveAdminSecretKey(phrase: string): Promise<Fr> {
+  return deriveSecretKeyV2(phrase, ADMIN_BACKUP_USER);
 }
 
-// Fixed salt for deterministic addresses
-const ACCOUNT_SALT = Fr.ONE;
+/**
+ * Derive the account secret key for a passphrase with the given derivation.
+ */
+export async function deriveSecretKey(passphrase: string, derivation: KeyDerivation): Promise<Fr> {
+  if (derivation.version === 2) {
+    if (!derivation.user) {
+      throw new Error("Key derivation v2 needs a username");
+    }
+    return deriveSecretKeyV2(passphrase, derivation.user);
+  }
+  // Legacy: pad, reduce, and hash with Poseidon
+  return hashSecretKey(passphraseToSecretKey(passphrase));
+}
 
 /**
- * Convert a passphrase string to an Fr secret key.
+ * Convert a passphrase string to an Fr secret key (legacy v1 derivation).
  * Pads the passphrase to 32 bytes for consistent key derivation.
  */
 export function passphraseToSecretKey(passphrase: string): Fr {
@@ -89,16 +116,14 @@ export async function hashSecretKey(secretKey: Fr): Promise<Fr> {
  */
 export async function createAccountFromPassphrase(
   testWallet: TestWallet,
-  passphrase: string
+  passphrase: string,
+  derivation: KeyDerivation = LEGACY_KEY_DERIVATION
 ): Promise<{
   account: AccountManager;
   secretKey: Fr;
 }> {
   // Convert passphrase to secret key
-  const rawKey = passphraseToSecretKey(passphrase);
-
-  // Hash it with Poseidon for better key distribution
-  const secretKey = await hashSecretKey(rawKey);
+  const secretKey = await deriveSecretKey(passphrase, derivation);
 
   // Create Schnorr account using TestWallet (derives signing key internally)
   const account = await testWallet.createSchnorrAccount(secretKey, ACCOUNT_SALT);
@@ -106,6 +131,36 @@ export async function createAccountFromPassphrase(
   return { account, secretKey };
 }
 
+/**
+ * Compute the account address for a secret key without connecting to a node.
+ */
+export async function getAccountAddress(secretKey: Fr): Promise<AztecAddress> {
+  return await getSchnorrAccountContractAddress(secretKey, ACCOUNT_SALT);
+}
+
+// Address of the well-known admin passphrase's account (legacy derivation)
+let wellKnownAdminAddress: Promise<string> | null = null;
+
+/**
+ * Check whether an address is the account of the well-known admin
+ * passphrase, i.e. anyone can sign as it.
+ */
+export async function isWellKnownAdmin(address: AztecAddress): Promise<boolean> {
+  wellKnownAdminAddress ??= deriveSecretKey(WELL_KNOWN_ADMIN_PASSPHRASE, LEGACY_KEY_DERIVATION)
+    .then(getAccountAddress)
+    .then((account) => account.toString().toLowerCase());
+  return (await wellKnownAdminAddress) === address.toString().toLowerCase();
+}
+
+/**
+ * Check whether the account for a secret key is deployed, without deploying it.
+ */
+export async function isAccountDeployed(testWallet: TestWallet, secretKey: Fr): Promise<boolean> {
+  const account = await testWallet.createSchnorrAccount(secretKey, ACCOUNT_SALT);
+  const metadata = await testWallet.getContractMetadata(account.address);
+  return !!metadata?.isContractInitialized;
+}
+
 /**
  * Get or deploy a wallet from a passphrase.
  * If the account doesn't exist on-chain, it will be deployed.
@@ -116,19 +171,40 @@ export async function createAccountFromPassphrase(
 export async function getOrDeployWallet(
   testWallet: TestWallet,
   passphrase: string,
+  feeStrategy: FeeStrategy,
+  deploy: boolean = true,
+  derivation: KeyDerivation = LEGACY_KEY_DERIVATION
+): Promise<{
+  wallet: TestWallet;
+  accountAddress: AztecAddress;
+  secretKey: Fr;
+  isNewDeployment: boolean;
+  deployReceipt?: TxReceipt;
+}> {
+  const secretKey = await deriveSecretKey(passphrase, derivation);
+  return await getOrDeployAccount(testWallet, secretKey, feeStrategy, deploy);
+}
+
+/**
+ * Get or deploy the account for a secret key (e.g. one from the keystore),
+ * paying for a deployment with the fee strategy.
+ */
+export async function getOrDeployAccount(
+  testWallet: TestWallet,
+  secretKey: Fr,
+  feeStrategy: FeeStrategy,
   deploy: boolean = true
 ): Promise<{
   wallet: TestWallet;
   accountAddress: AztecAddress;
   secretKey: Fr;
   isNewDeployment: boolean;
+  // Set when the account was deployed by this call
+  deployReceipt?: TxReceipt;
 }> {
-  const { account, secretKey } = await createAccountFromPassphrase(testWallet, passphrase);
+  const account = await testWallet.createSchnorrAccount(secretKey, ACCOUNT_SALT);
   const accountAddress = account.address;
 
-  // Register the SponsoredFPC contract for fee payments
-  const fpcAddress = await registerSponsoredFPC(testWallet);
-
   // Check if the account is already deployed
   const metadata = await testWallet.getContractMetadata(accountAddress);
 
@@ -141,30 +217,78 @@ export async function getOrDeployWallet(
     throw new Error(`Account ${accountAddress.toString()} is not deployed. Use --deploy to deploy it.`);
   }
 
-  // Deploy the account with sponsored fee payment
-  const paymentMethod = new SponsoredFeePaymentMethod(fpcAddress);
+  // Deploy the account, paying as the fee strategy does for new accounts
+  const fee = await feeStrategy.getAccountDeploymentFeeOptions(testWallet, accountAddress);
   const deployMethod = await account.getDeployMethod();
-  await deployMethod.send({
+  const deployReceipt = await deployMethod.send({
     from: AztecAddress.ZERO,
-    fee: { paymentMethod },
+    fee,
   }).wait();
 
-  return { wallet: testWallet, accountAddress, secretKey, isNewDeployment: true };
+  return { wallet: testWallet, accountAddress, secretKey, isNewDeployment: true, deployReceipt };
 }
 
-/**
- * Derive the encryption public key from the secret key.
- * This is used for encrypting delivery data in the Secret Santa protocol.
- */
-export async function getEncryptionPublicKey(
-  secretKey: Fr
-): Promise<{ x: Fr; y: Fr; is_infinite: boolean }> {
-  const signingKey = deriveSigningKey(secretKey);
-  const publicKey = await derivePublicKeyFromSecretKey(signingKey);
+// Domain separator for game-scoped encryption keys ("santa-enc" in ASCII)
+const ENCRYPTION_KEY_DOMAIN = new Fr(0x73616e74612d656e63n);
 
+export type EncryptionPublicKey = { x: Fr; y: Fr; is_infinite: boolean };
+
+async function toEncryptionPublicKey(privateKey: GrumpkinScalar): Promise<EncryptionPublicKey> {
+  const publicKey = await derivePublicKeyFromSecretKey(privateKey);
   return {
     x: new Fr(publicKey.x.toBigInt()),
     y: new Fr(publicKey.y.toBigInt()),
     is_infinite: publicKey.isInfinite,
   };
 }
+
+/**
+ * Derive the encryption private key for one game.
+ * Scoped to contract + game so slot keys can't be linked across games,
+ * and kept apart from the account's signing key.
+ */
+export async function deriveEncryptionPrivateKey(
+  secretKey: Fr,
+  contractAddress: AztecAddress,
+  gameId: number | bigint
+): Promise<GrumpkinScalar> {
+  const hash = await poseidon2Hash([ENCRYPTION_KEY_DOMAIN, secretKey, contractAddress.toField(), new Fr(BigInt(gameId))]);
+  return new Fq(hash.toBigInt());
+}
+
+/**
+ * Derive the encryption public key published when registering as sender in a game.
+ * Receivers encrypt delivery data to it.
+ */
+export async function getEncryptionPublicKey(
+  secretKey: Fr,
+  contractAddress: AztecAddress,
+  gameId: number | bigint
+): Promise<EncryptionPublicKey> {
+  return toEncryptionPublicKey(await deriveEncryptionPrivateKey(secretKey, contractAddress, gameId));
+}
+
+/**
+ * Find the private key that decrypts a slot, given the public key the slot published.
+ * Slots registered before game-scoped keys used the account signing key.
+ */
+export async function resolveDecryptionKey(
+  secretKey: Fr,
+  contractAddress: AztecAddress,
+  gameId: number | bigint,
+  slotKey: { x: bigint | Fr; y: bigint | Fr }
+): Promise<{ privateKey: GrumpkinScalar; legacy: boolean } | undefined> {
+  const matches = (key: EncryptionPublicKey) =>
+    key.x.toBigInt() === BigInt(slotKey.x.toString()) && key.y.toBigInt() === BigInt(slotKey.y.toString());
+
+  const privateKey = await deriveEncryptionPrivateKey(secretKey, contractAddress, gameId);
+  if (matches(await toEncryptionPublicKey(privateKey))) {
+    return { privateKey, legacy: false };
+  }
+
+  const legacyKey = deriveSigningKey(secretKey);
+  if (matches(await toEncryptionPublicKey(legacyKey))) {
+    return { privateKey: legacyKey, legacy: true };
+  }
+  return undefined;
+}
@@ -0,0 +1,87 @@
+/**
+ * Client Utilities - SecretSantaClient set up for the CLI
+ *
+ * Connects to the configured contract and pays fees with the configured
+ * strategy, showing each transaction's simulated effect and fee estimate
+ * before it is sent, and saves every sent transaction's receipt to the
+ * profile's history. With --dry-run, transactions are only simulated.
+ */
+
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import type { AztecNode } from "@aztec/aztec.js/node";
+import { TestWallet } from "@aztec/test-wallet/server";
+import { SecretSantaClient, type Preflight } from "../services/client.js";
+import { getContractAddress } from "../services/config.js";
+import type { FeeStrategy } from "../services/fees.js";
+import { recordReceipt, recordTx } from "../services/history.js";
+import { getRequestPolicy } from "../services/policy.js";
+import * as display from "./display.js";
+import { getFeeStrategy } from "./fees.js";
+
+// Set from the global --dry-run flag for the current command
+let dryRun = false;
+
+/**
+ * Only simulate transactions for the rest of this command.
+ */
+export function setDryRun(enabled: boolean): void {
+  dryRun = enabled;
+}
+
+/**
+ * Check whether this command only simulates transactions.
+ */
+export function isDryRun(): boolean {
+  return dryRun;
+}
+
+/**
+ * Show a passed simulation and what the transaction will cost.
+ */
+function showSimulation(preflight: Preflight, strategy: FeeStrategy): void {
+  display.success(`Simulation passed: ${preflight.effect}`);
+  display.feeEstimate(strategy, preflight.estimate);
+}
+
+/**
+ * Connect a client to the configured contract.
+ * The output hook replaces the default output (e.g. for the dashboard).
+ */
+export async function openClient(
+  wallet: TestWallet,
+  account: AztecAddress,
+  node: AztecNode,
+  secretKey?: Fr,
+  output: { showPreflight?: (preflight: Preflight, strategy: FeeStrategy) => void } = {}
+): Promise<SecretSantaClient> {
+  const { showPreflight = showSimulation } = output;
+  const strategy = getFeeStrategy();
+  return SecretSantaClient.connect({
+    wallet,
+    node,
+    account,
+    secretKey,
+    contractAddress: AztecAddress.fromString(getContractAddress()),
+    fee: strategy,
+    // The policy the CLI configured from flags and config
+    requestPolicy: getRequestPolicy(),
+    dryRun,
+    onPreflight: (preflight) => showPreflight(preflight, strategy),
+    onTransaction: (tx) => {
+      const details = {
+        action: tx.method,
+        description: tx.effect,
+        contractAddress: getContractAddress().toLowerCase(),
+        gameId: tx.gameId,
+        account: account.toString().toLowerCase(),
+        sentAt: tx.sentAt.toISOString(),
+      };
+      if (tx.receipt) {
+        recordReceipt(tx.receipt, details);
+      } else {
+        recordTx({ ...details, txHash: tx.txHash, status: "failed", error: tx.error });
+      }
+    },
+  });
+}
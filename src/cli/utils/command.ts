@@ -0,0 +1,31 @@
+/**
+ * Command Utilities - State of the command being run
+ *
+ * The daemon runs forwarded commands side by side in one process, so each
+ * keeps its output and exit code in its own context. A shared
+ * process.exitCode would be read or cleared by whichever finished first.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+
+export interface ForwardedCommand {
+  // Sends the command's output to its caller
+  write: (stream: "stdout" | "stderr", data: string) => void;
+  exitCode?: number;
+}
+
+// The forwarded command each call in the daemon belongs to
+export const forwardedCommand = new AsyncLocalStorage<ForwardedCommand>();
+
+/**
+ * Set the exit code of the command being run: the forwarded command's in
+ * the daemon, otherwise the process's.
+ */
+export function setExitCode(code: number): void {
+  const command = forwardedCommand.getStore();
+  if (command) {
+    command.exitCode = code;
+  } else {
+    process.exitCode = code;
+  }
+}
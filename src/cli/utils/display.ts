@@ -4,6 +4,8 @@
 
 import chalk from "chalk";
 import { PHASE_NAMES } from "../services/contract.js";
+import { describeError } from "../services/errors.js";
+import type { FeeEstimate, FeeStrategy } from "../services/fees.js";
 
 // Re-export chalk for use in other modules
 export { chalk };
@@ -24,6 +26,20 @@ export function formatDuration(ms: number): string {
   }
 }
 
+/**
+ * Format a byte count, e.g. "12.3 MB".
+ */
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} ${units[0]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
 /**
  * Display transaction timing info.
  */
@@ -32,6 +48,38 @@ export function txTiming(label: string, durationMs: number): void {
   console.log(chalk.dim(`  ⏱  ${label}: `) + chalk.cyan(formatted));
 }
 
+/**
+ * Display a mined transaction's hash, block, fee and timing.
+ */
+export function txReceipt(tx: {
+  txHash: string;
+  durationMs: number;
+  receipt: { status: string; blockNumber?: number; transactionFee?: bigint };
+}): void {
+  console.log(chalk.dim("  #  Tx hash: ") + tx.txHash);
+  const block = tx.receipt.blockNumber !== undefined ? `block ${tx.receipt.blockNumber}` : "block unknown";
+  const fee = tx.receipt.transactionFee !== undefined ? `, fee ${formatFeeJuice(tx.receipt.transactionFee)}` : "";
+  console.log(chalk.dim("  ✓  Status: ") + `${tx.receipt.status} in ${block}${fee}`);
+  txTiming("Transaction time", tx.durationMs);
+}
+
+/**
+ * Format a Fee Juice amount (18 decimals), e.g. "0.000123 FJ".
+ */
+export function formatFeeJuice(amount: bigint): string {
+  const whole = amount / 10n ** 18n;
+  const fraction = (amount % 10n ** 18n).toString().padStart(18, "0").slice(0, 6).replace(/0+$/, "");
+  return `${whole}${fraction ? `.${fraction}` : ""} FJ`;
+}
+
+/**
+ * Display the estimated fee for a transaction about to be sent.
+ */
+export function feeEstimate(strategy: FeeStrategy, estimate: FeeEstimate): void {
+  const amount = `~${formatFeeJuice(estimate.fee)} (${estimate.gasLimits.daGas} DA + ${estimate.gasLimits.l2Gas} L2 gas)`;
+  console.log(chalk.dim(`  ⛽ Fee: `) + chalk.cyan(amount) + chalk.dim(`, ${strategy.description}`));
+}
+
 /**
  * Print a success message.
  */
@@ -46,6 +94,25 @@ export function error(message: string): void {
   console.log(chalk.red("✗ ") + message);
 }
 
+/**
+ * Print why a command failed, with a hint on what to do about it for
+ * protocol errors (including contract assertion failures).
+ */
+export function failure(err: unknown): void {
+  const { message, hint } = describeError(err);
+  error(message);
+  if (hint) {
+    console.log(chalk.dim(`  ${hint}`));
+  }
+}
+
+/**
+ * Note that a transaction was only simulated.
+ */
+export function dryRunNotice(): void {
+  console.log(chalk.yellow("◌ ") + "Dry run: the transaction was simulated, not sent");
+}
+
 /**
  * Print a warning message.
  */
@@ -53,6 +120,18 @@ export function warn(message: string): void {
   console.log(chalk.yellow("⚠ ") + message);
 }
 
+/**
+ * Print a warning that must not be missed, e.g. an admin key anyone can use.
+ */
+export function alarm(title: string, lines: string[]): void {
+  console.log("");
+  console.log(chalk.bgRed.white.bold(` ⚠ ${title} `));
+  for (const line of lines) {
+    console.log(chalk.red(`  ${line}`));
+  }
+  console.log("");
+}
+
 /**
  * Print an info message.
  */
@@ -0,0 +1,33 @@
+/**
+ * Fee Utilities - The fee strategy the CLI's config selects
+ *
+ * Reads the fee mode and FPC from --fee-mode, ZK_FEE_MODE, ZK_FPC or
+ * `config set`, and looks FPCs and base fees up on the configured node.
+ * The fee service itself takes these as arguments, so the SDK never loads
+ * the config.
+ */
+
+import { createAztecNodeClient, type AztecNode } from "@aztec/aztec.js/node";
+import { getNodeUrl, loadConfig } from "../services/config.js";
+import { createFeeStrategy, type FeeStrategy } from "../services/fees.js";
+
+let feeNode: { url: string; node: AztecNode } | null = null;
+
+/**
+ * Get a node client for fee queries on the configured network.
+ */
+function getFeeNode(): AztecNode {
+  const url = getNodeUrl();
+  if (feeNode?.url !== url) {
+    feeNode = { url, node: createAztecNodeClient(url) };
+  }
+  return feeNode.node;
+}
+
+/**
+ * Get the fee strategy configured for this session.
+ */
+export function getFeeStrategy(): FeeStrategy {
+  const { feeMode = "sponsored", fpcAddress } = loadConfig();
+  return createFeeStrategy(feeMode, getFeeNode(), fpcAddress);
+}
@@ -22,6 +22,69 @@ export async function promptPassphrase(): Promise<string> {
   });
 }
 
+/**
+ * Prompt for the username that salts passphrase key derivation.
+ */
+export async function promptUsername(): Promise<string> {
+  return await input({
+    message: "Choose a username (needed with your passphrase on every device):",
+    validate: (value) => {
+      if (!value.trim()) {
+        return "Username cannot be empty";
+      }
+      return true;
+    },
+  });
+}
+
+/**
+ * Prompt for a keystore wallet's password (masked input).
+ */
+export async function promptWalletPassword(name: string): Promise<string> {
+  return await password({
+    message: `Password for wallet "${name}":`,
+    mask: "*",
+  });
+}
+
+/**
+ * Prompt for a new keystore password, asking twice to catch typos.
+ */
+export async function promptNewWalletPassword(): Promise<string> {
+  const first = await password({
+    message: "Choose a password to encrypt the wallet:",
+    mask: "*",
+    validate: (value) => {
+      if (!value || value.length < 8) {
+        return "Password must be at least 8 characters";
+      }
+      return true;
+    },
+  });
+  await password({
+    message: "Repeat the password:",
+    mask: "*",
+    validate: (value) => value === first || "Passwords don't match",
+  });
+  return first;
+}
+
+/**
+ * Prompt for an account secret key as hex (masked input).
+ */
+export async function promptSecretKey(): Promise<string> {
+  return await password({
+    message: "Enter the account secret key (hex):",
+    mask: "*",
+    validate: (value) => {
+      if (!/^(0x)?[0-9a-fA-F]{1,64}$/.test(value.trim())) {
+        return "Secret key must be up to 32 bytes of hex";
+      }
+      return true;
+    },
+  });
+}
+
 /**
  * Prompt for contract address.
  */
@@ -201,6 +264,16 @@ export async function promptNodeUrl(defaultValue: string = "http://localhost:808
   });
 }
 
+/**
+ * Ask whether a node needs client-side proofs.
+ */
+export async function promptProverEnabled(defaultValue: boolean = true): Promise<boolean> {
+  return await confirm({
+    message: "Does this node require real proofs? (No for local sandboxes)",
+    default: defaultValue,
+  });
+}
+
 /**
  * Prompt for admin address.
  */
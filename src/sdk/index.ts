@@ -0,0 +1,59 @@
+/**
+ * ZK Secret Santa SDK - Embed the protocol without the CLI
+ *
+ * import { SecretSantaClient } from "zk-secret-santa/sdk";
+ */
+
+export {
+  SecretSantaClient,
+  type SecretSantaClientOptions,
+  type FeeProvider,
+  type TxResult,
+  type Preflight,
+  type CreateGameResult,
+  type AdvancePhaseResult,
+  type RegisterSenderResult,
+  type ClaimReceiverResult,
+  type DeliveryData,
+  type GameEvent,
+  type WatchOptions,
+} from "../cli/services/client.js";
+export {
+  SecretSantaError,
+  ContractNotFoundError,
+  GameNotFoundError,
+  WrongPhaseError,
+  NotAdminError,
+  GameFullError,
+  NotEnoughParticipantsError,
+  SendersPendingError,
+  ReceiversPendingError,
+  InvalidSlotError,
+  SlotTakenError,
+  ReceiverTakenError,
+  NotEnrolledError,
+  NotSenderError,
+  InvalidInputError,
+  NoDeliveryDataError,
+  NotSlotOwnerError,
+  DecryptionFailedError,
+  RequestTimeoutError,
+  NodeUnavailableError,
+  ArtifactMismatchError,
+  toSecretSantaError,
+  describeError,
+  isSecretSantaError,
+  type SecretSantaErrorCode,
+  type SecretSantaErrorOptions,
+} from "../cli/services/errors.js";
+export {
+  RequestPolicy,
+  DEFAULT_REQUEST_POLICY,
+  isTransientError,
+  type RequestPolicyOptions,
+  type RequestOptions,
+} from "../cli/services/policy.js";
+export { PHASE, PHASE_NAMES, type GameState } from "../cli/services/contract.js";
+export { createFeeStrategy, type FeeEstimate, type FeeOptions, type FeeStrategy } from "../cli/services/fees.js";
+export type { FeeMode } from "../cli/services/config.js";
+export type { EncryptionPublicKey } from "../cli/services/wallet.js";
@@ -0,0 +1,161 @@
+/**
+ * SDK Client - Transaction Preflight Tests
+ *
+ * Checks that each transaction is simulated once, with the gas estimate and
+ * the reported effect taken from that simulation, and that a failing
+ * simulation stops it before anything is sent. The contract and the Aztec
+ * modules are replaced with stand-ins.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@aztec/aztec.js/addresses", () => ({ AztecAddress: {} }));
+vi.mock("@aztec/aztec.js/fields", () => ({ Fr: class {} }));
+vi.mock("@aztec/test-wallet/server", () => ({ TestWallet: class {} }));
+vi.mock("../cli/services/contract.js", () => ({
+  PHASE: { JOIN: 1, CLAIM: 2, MATCH: 3, REVEAL: 4 },
+  PHASE_NAMES: { 1: "Join", 2: "Claim", 3: "Match", 4: "Reveal" },
+  connectToContract: async () => contract,
+  getGameState: async () => undefined,
+  getNextGameIdAt: async (_node: unknown, _address: unknown, block: number) => nextGameIds[block],
+}));
+vi.mock("../cli/services/crypto.js", () => ({}));
+vi.mock("../cli/services/wallet.js", () => ({}));
+vi.mock("../cli/services/fees.js", () => ({
+  getSponsoredPaymentMethod: async () => "sponsored",
+}));
+
+import { SecretSantaClient, type Preflight, type SentTransaction } from "../cli/services/client.js";
+import { NotAdminError, RequestTimeoutError } from "../cli/services/errors.js";
+import { RequestPolicy } from "../cli/services/policy.js";
+
+// Gas the stand-in simulation uses; its fee is the 3 L2 gas at the L2 base fee
+const GAS_LIMITS = {
+  daGas: 1,
+  l2Gas: 3,
+  computeFee: (baseFees: { l2: number }) => ({ toBigInt: () => BigInt(3 * baseFees.l2) }),
+};
+
+/**
+ * A create_game call that simulates as the given result or failure.
+ */
+function fakeInteraction(simulation: () => Promise<unknown>) {
+  return {
+    simulate: vi.fn(simulation),
+    estimateGas: vi.fn(),
+    send: vi.fn(() => ({
+      wait: async () => ({ txHash: { toString: () => "0xfeed" }, blockNumber: 12 }),
+      getTxHash: async () => undefined,
+    })),
+  };
+}
+
+let interaction: ReturnType<typeof fakeInteraction>;
+// The contract's next game ID as of each block
+let nextGameIds: Record<number, number>;
+const contract = {
+  address: "contract",
+  methods: {
+    create_game: () => interaction,
+  },
+};
+const node = { getCurrentBaseFees: vi.fn(async () => ({ l2: 10 })) };
+
+describe("SecretSantaClient transactions", () => {
+  let preflights: Preflight[];
+  let sent: SentTransaction[];
+
+  /**
+   * Connect a client that records its preflights and sent transactions.
+   */
+  function connect(dryRun: boolean, requestPolicy?: RequestPolicy) {
+    return SecretSantaClient.connect({
+      wallet: {} as any,
+      node: node as any,
+      contractAddress: "contract" as any,
+      account: "alice" as any,
+      dryRun,
+      onPreflight: (preflight) => preflights.push(preflight),
+      onTransaction: (tx) => sent.push(tx),
+      requestPolicy,
+    });
+  }
+
+  beforeEach(() => {
+    preflights = [];
+    sent = [];
+    interaction = fakeInteraction(async () => ({ result: 7n, estimatedGas: { gasLimits: GAS_LIMITS } }));
+    nextGameIds = { 11: 7, 12: 8 };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("simulates once and reports what the simulation returned", async () => {
+    const client = await connect(true);
+
+    const result = await client.createGame(3, 5);
+
+    expect(interaction.simulate).toHaveBeenCalledOnce();
+    expect(interaction.simulate).toHaveBeenCalledWith({ from: "alice", fee: { paymentMethod: "sponsored", estimateGas: true } });
+    expect(interaction.estimateGas).not.toHaveBeenCalled();
+    expect(interaction.send).not.toHaveBeenCalled();
+    const preflight = {
+      method: "create_game",
+      effect: "Creates game #7 for 3-5 participants",
+      result: 7n,
+      estimate: { gasLimits: GAS_LIMITS, fee: 30n },
+    };
+    expect(preflights).toEqual([preflight]);
+    expect(result).toEqual({ dryRun: true, preflight, gameId: 7 });
+  });
+
+  it("sends with the simulated fee options and records the simulated game", async () => {
+    const client = await connect(false);
+
+    const result = await client.createGame(3, 5);
+
+    expect(interaction.simulate).toHaveBeenCalledOnce();
+    expect(interaction.send).toHaveBeenCalledWith({ from: "alice", fee: { paymentMethod: "sponsored" } });
+    expect(result).toMatchObject({ dryRun: false, txHash: "0xfeed", gameId: 7 });
+    expect(sent).toEqual([expect.objectContaining({ method: "create_game", gameId: 7, effect: "Creates game #7 for 3-5 participants" })]);
+  });
+
+  it("takes the game's ID from the mined block when another game took the simulated one", async () => {
+    nextGameIds = { 11: 8, 12: 9 };
+    const client = await connect(false);
+
+    const result = await client.createGame(3, 5);
+
+    expect(result).toMatchObject({ gameId: 8, result: 8 });
+    expect(sent).toEqual([expect.objectContaining({ gameId: 8, effect: "Creates game #8 for 3-5 participants" })]);
+  });
+
+  it("stops at a failing simulation with its typed error", async () => {
+    interaction = fakeInteraction(async () => {
+      throw new Error("Assertion failed: Only admin can create games 'caller.eq(admin)'");
+    });
+    const client = await connect(false);
+
+    await expect(client.createGame(3, 5)).rejects.toBeInstanceOf(NotAdminError);
+    expect(interaction.simulate).toHaveBeenCalledOnce();
+    expect(preflights).toEqual([]);
+    expect(interaction.send).not.toHaveBeenCalled();
+  });
+
+  it("gives up on a send that outlasts the send timeout, even while it is still proving", async () => {
+    vi.useFakeTimers();
+    const proving = new Promise<never>(() => {});
+    interaction.send.mockReturnValue({ wait: () => proving, getTxHash: () => proving } as any);
+    const client = await connect(false, new RequestPolicy({ sendTimeoutMs: 60_000 }));
+
+    const result = client.createGame(3, 5);
+    const rejected = expect(result).rejects.toThrow(RequestTimeoutError);
+    await vi.advanceTimersByTimeAsync(60_000);
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    await rejected;
+    expect(sent).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * CLI Commands - Exit Code Tests
+ *
+ * Checks that forwarded commands running side by side in the daemon each
+ * keep their own exit code, and leave the process's alone.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { forwardedCommand, setExitCode, type ForwardedCommand } from "../cli/utils/command.js";
+
+/**
+ * Run a forwarded command that fails or succeeds after a delay.
+ */
+function runCommand(fails: boolean, delayMs: number): Promise<number> {
+  const command: ForwardedCommand = { write: () => {} };
+  return forwardedCommand.run(command, async () => {
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+    if (fails) setExitCode(1);
+    return command.exitCode ?? 0;
+  });
+}
+
+describe("CLI exit codes", () => {
+  afterEach(() => {
+    process.exitCode = undefined;
+  });
+
+  it("keeps each forwarded command's exit code apart", async () => {
+    const codes = await Promise.all([runCommand(true, 20), runCommand(false, 10), runCommand(false, 30)]);
+
+    expect(codes).toEqual([1, 0, 0]);
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("sets the process's exit code outside a forwarded command", () => {
+    setExitCode(1);
+
+    expect(process.exitCode).toBe(1);
+  });
+});
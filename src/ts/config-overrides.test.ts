@@ -0,0 +1,68 @@
+/**
+ * CLI Config - Session Override Tests
+ *
+ * The shell takes the flag selections it was started with and restores
+ * them before each command it runs. Checks that a flag given on one
+ * command doesn't carry over to the next, while the shell's own stay.
+ */
+
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  getConfigOverrides,
+  loadConfig,
+  restoreConfigOverrides,
+  setFeeModeOverride,
+  setNetworkOverride,
+  setRequestPolicyOverride,
+} from "../cli/services/config.js";
+
+describe("CLI config session overrides", () => {
+  let dir: string;
+  let savedHome: string | undefined;
+  let initial: ReturnType<typeof getConfigOverrides>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "zk-santa-overrides-"));
+    savedHome = process.env.ZK_HOME;
+    process.env.ZK_HOME = dir;
+    initial = getConfigOverrides();
+  });
+
+  afterEach(() => {
+    restoreConfigOverrides(initial);
+    if (savedHome === undefined) delete process.env.ZK_HOME;
+    else process.env.ZK_HOME = savedHome;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("drops a command's flags when the shell's are restored", () => {
+    const before = loadConfig();
+    const shell = getConfigOverrides();
+
+    // A command run with --fee-mode fee-juice --timeout 5 --devnet
+    setFeeModeOverride("fee-juice");
+    setRequestPolicyOverride("requestTimeout", "5", "--timeout");
+    setNetworkOverride("devnet", "https://devnet.example", "--devnet");
+    expect(loadConfig()).toMatchObject({ feeMode: "fee-juice", requestTimeout: 5, nodeUrl: "https://devnet.example" });
+
+    // The next command
+    restoreConfigOverrides(shell);
+    const after = loadConfig();
+    expect(after.feeMode).toBe(before.feeMode);
+    expect(after.requestTimeout).toBe(before.requestTimeout);
+    expect(after.nodeUrl).toBe(before.nodeUrl);
+  });
+
+  it("keeps the flags the shell was started with", () => {
+    setFeeModeOverride("fee-juice");
+    const shell = getConfigOverrides();
+
+    setFeeModeOverride("sponsored");
+    restoreConfigOverrides(shell);
+
+    expect(loadConfig().feeMode).toBe("fee-juice");
+  });
+});
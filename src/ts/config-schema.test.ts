@@ -0,0 +1,137 @@
+/**
+ * CLI Config - Schema Migration and Validation Tests
+ *
+ * Writes old and hand-edited config files and checks that inspectConfigFile
+ * migrates them to the current schema and drops invalid values with an issue.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { CONFIG_VERSION, inspectConfigFile } from "../cli/services/config.js";
+
+const ADDRESS = `0x${"ab".repeat(32)}`;
+
+describe("CLI config schema", () => {
+  let dir: string;
+
+  /**
+   * Write a config file and inspect it.
+   */
+  function inspect(contents: unknown) {
+    const path = join(dir, ".zk-santa.json");
+    writeFileSync(path, typeof contents === "string" ? contents : JSON.stringify(contents));
+    return inspectConfigFile(path);
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "zk-santa-schema-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("migrates a flat v1 file into the default profile, keyed by network", () => {
+    const report = inspect({ network: "devnet", nodeUrl: "https://devnet.example/", contractAddress: ADDRESS, currentGameId: 4 });
+
+    expect(report.version).toBe(1);
+    expect(report.migrations).toHaveLength(2);
+    expect(report.issues).toEqual([]);
+    expect(report.file).toEqual({
+      version: CONFIG_VERSION,
+      profiles: {
+        default: {
+          network: "devnet",
+          nodeUrl: "https://devnet.example",
+          deployments: { devnet: { contractAddress: ADDRESS, currentGameId: 4 } },
+        },
+      },
+    });
+  });
+
+  it("migrates v2 profiles and keys custom networks by node URL", () => {
+    const report = inspect({
+      activeProfile: "office",
+      profiles: {
+        office: { network: "custom", nodeUrl: "http://node.local:8080", contractAddress: ADDRESS },
+        home: { currentGameId: 2 },
+      },
+    });
+
+    expect(report.version).toBe(2);
+    expect(report.migrations).toEqual([expect.stringMatching(/^v3: /)]);
+    expect(report.issues).toEqual([]);
+    expect(report.file?.activeProfile).toBe("office");
+    expect(report.file?.profiles.office.deployments).toEqual({ "http://node.local:8080": { contractAddress: ADDRESS } });
+    expect(report.file?.profiles.home.deployments).toEqual({ sandbox: { currentGameId: 2 } });
+  });
+
+  it("reads a current file without migrations or issues", () => {
+    const file = {
+      version: CONFIG_VERSION,
+      activeProfile: "default",
+      profiles: { default: { network: "sandbox", feeMode: "fee-juice", deployments: { sandbox: { currentGameId: 1 } } } },
+    };
+    const report = inspect(file);
+
+    expect(report.migrations).toEqual([]);
+    expect(report.issues).toEqual([]);
+    expect(report.file).toEqual(file);
+  });
+
+  it("drops invalid values and reports each one", () => {
+    const report = inspect({
+      version: CONFIG_VERSION,
+      activeProfile: "bad name",
+      extra: true,
+      profiles: {
+        default: {
+          network: "mainnet",
+          nodeUrl: "ftp://node",
+          feeMode: "free",
+          maxAttempts: 0,
+          wallet: "../keys",
+          colour: "red",
+          deployments: {
+            sandbox: { contractAddress: "0x123", currentGameId: "7", deployBlock: -1 },
+            "not a url": { currentGameId: 1 },
+          },
+        },
+        "bad/name": {},
+      },
+    });
+
+    expect(report.error).toBeUndefined();
+    expect(report.issues.map((issue) => issue.path).sort()).toEqual(
+      [
+        "activeProfile",
+        "extra",
+        "profiles.bad/name",
+        "profiles.default.colour",
+        "profiles.default.deployments.not a url",
+        "profiles.default.deployments.sandbox.contractAddress",
+        "profiles.default.deployments.sandbox.currentGameId",
+        "profiles.default.deployments.sandbox.deployBlock",
+        "profiles.default.feeMode",
+        "profiles.default.maxAttempts",
+        "profiles.default.network",
+        "profiles.default.nodeUrl",
+        "profiles.default.wallet",
+      ].sort()
+    );
+    // A game ID stored as a string is converted, not dropped
+    expect(report.file).toEqual({
+      version: CONFIG_VERSION,
+      profiles: { default: { deployments: { sandbox: { currentGameId: 7 } } } },
+    });
+  });
+
+  it("refuses files it can't use", () => {
+    expect(inspect("{ not json").error).toMatch(/not valid JSON/);
+    expect(inspect([1, 2]).error).toBe("is not a JSON object");
+    expect(inspect({ version: CONFIG_VERSION + 1, profiles: {} }).error).toMatch(/newer CLI/);
+    expect(inspect({ version: CONFIG_VERSION + 1, profiles: {} }).file).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * CLI Config - Concurrent Write Test
+ *
+ * Runs several processes that each increment currentGameId through
+ * updateConfig at the same time. With atomic writes and locking no
+ * increment is lost and the file is never seen half-written.
+ */
+
+import { spawn } from "child_process";
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+const CONFIG_MODULE = fileURLToPath(new URL("../cli/services/config.ts", import.meta.url));
+const PROCESSES = 4;
+const INCREMENTS = 25;
+
+/**
+ * Run a worker process that increments the game ID `count` times.
+ */
+function runWorker(dir: string, count: number): Promise<{ code: number | null; stderr: string }> {
+  // Start from the repo so tsx resolves, then move into the config dir
+  const script = `
+    process.chdir(${JSON.stringify(dir)});
+    const { updateConfig } = await import(${JSON.stringify(CONFIG_MODULE)});
+    for (let i = 0; i < ${count}; i++) {
+      updateConfig((current) => ({ currentGameId: (current.currentGameId ?? 0) + 1 }));
+    }
+  `;
+
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn(process.execPath, ["--import", "tsx", "--input-type=module", "-e", script], {
+      env: { ...process.env, HOME: dir, ZK_GAME: "", GAME: "", ZK_PROFILE: "" },
+    });
+    let stderr = "";
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+    child.on("error", reject);
+    child.on("close", (code) => resolvePromise({ code, stderr }));
+  });
+}
+
+describe("CLI config concurrent writes", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "zk-santa-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("does not lose updates from parallel processes", async () => {
+    const results = await Promise.all(
+      Array.from({ length: PROCESSES }, () => runWorker(dir, INCREMENTS))
+    );
+
+    for (const { code, stderr } of results) {
+      expect(stderr).not.toContain("Warning");
+      expect(code).toBe(0);
+    }
+
+    const file = JSON.parse(readFileSync(join(dir, ".zk-santa.json"), "utf-8"));
+    expect(file.profiles.default.deployments.sandbox.currentGameId).toBe(PROCESSES * INCREMENTS);
+
+    // No lock or temp files are left behind
+    expect(readdirSync(dir).sort()).toEqual([".zk-santa.json"]);
+  });
+});
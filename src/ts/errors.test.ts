@@ -0,0 +1,104 @@
+/**
+ * Contract Errors - Assertion Mapping Tests
+ *
+ * Reads every assert message from the contract source and checks that a
+ * failing simulation with that message becomes the right SecretSantaError,
+ * so a new or reworded assertion can't slip through as a plain Error.
+ */
+
+import { readFileSync } from "fs";
+import { describe, it, expect } from "vitest";
+import {
+  GameFullError,
+  InvalidInputError,
+  InvalidSlotError,
+  NotAdminError,
+  NotEnoughParticipantsError,
+  NotEnrolledError,
+  NotSenderError,
+  ReceiversPendingError,
+  ReceiverTakenError,
+  SecretSantaError,
+  SendersPendingError,
+  SlotTakenError,
+  WrongPhaseError,
+  describeError,
+  toSecretSantaError,
+} from "../cli/services/errors.js";
+
+const CONTRACT_SOURCE = new URL("../secret_santa_contract/src/main.nr", import.meta.url);
+
+// The error each assertion in the contract should raise
+const EXPECTED: Record<string, new (...args: any[]) => SecretSantaError> = {
+  "Invalid admin address": InvalidInputError,
+  "Only admin can create games": NotAdminError,
+  "Need at least 3 participants": InvalidInputError,
+  "Max must be >= min": InvalidInputError,
+  "Only admin can advance phases": NotAdminError,
+  "Need at least 3 participants to start": NotEnoughParticipantsError,
+  "Not all participants have registered as senders": SendersPendingError,
+  "Not all participants have claimed a receiver slot": ReceiversPendingError,
+  "Cannot advance from current phase": WrongPhaseError,
+  "Not in join phase": WrongPhaseError,
+  "Game is full": GameFullError,
+  "Not in claim phase": WrongPhaseError,
+  "Slot must be >= 1": InvalidSlotError,
+  "Slot exceeds participant count": InvalidSlotError,
+  "Slot already claimed": SlotTakenError,
+  "Not in match phase": WrongPhaseError,
+  "Slot has no sender registered": InvalidSlotError,
+  "Slot already has a receiver": ReceiverTakenError,
+  "Not enrolled in this game": NotEnrolledError,
+  "Not registered as sender": NotSenderError,
+};
+
+/**
+ * Get the message of every assert in the contract source.
+ */
+function contractAssertions(): string[] {
+  const source = readFileSync(CONTRACT_SOURCE, "utf-8");
+  // The message is an assert's last argument
+  const messages = [...source.matchAll(/\bassert\([^;]*?"([^"]+)"\s*,?\s*\);/g)].map(([, message]) => message);
+  return [...new Set(messages)];
+}
+
+/**
+ * A simulation failure as the node reports an assertion.
+ */
+function assertionFailure(message: string): Error {
+  return new Error(`Assertion failed: ${message} 'condition'`);
+}
+
+describe("contract assertion errors", () => {
+  it("has an expected error for every assertion in the contract", () => {
+    expect(contractAssertions().sort()).toEqual(Object.keys(EXPECTED).sort());
+  });
+
+  it.each(Object.entries(EXPECTED).map(([message, ErrorClass]) => [message, ErrorClass.name, ErrorClass] as const))(
+    "%s -> %s",
+    (message, _name, ErrorClass) => {
+      const cause = assertionFailure(message);
+      const mapped = toSecretSantaError(cause);
+
+      expect(mapped).toBeInstanceOf(ErrorClass);
+      expect((mapped as SecretSantaError).message).toBe(message);
+      expect((mapped as SecretSantaError).cause).toBe(cause);
+    }
+  );
+
+  it("maps the longer of two overlapping messages by its own class", () => {
+    expect(toSecretSantaError(assertionFailure("Need at least 3 participants to start"))).toBeInstanceOf(NotEnoughParticipantsError);
+    expect(toSecretSantaError(assertionFailure("Need at least 3 participants"))).toBeInstanceOf(InvalidInputError);
+  });
+
+  it("leaves other failures alone and describes them by their message", () => {
+    const err = new Error("fetch failed");
+
+    expect(toSecretSantaError(err)).toBe(err);
+    expect(describeError(err)).toEqual({ message: "fetch failed" });
+    expect(describeError(assertionFailure("Max must be >= min"))).toEqual({
+      message: "Max must be >= min",
+      hint: "Set the maximum to at least the minimum.",
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * CLI Fees - Strategy Tests
+ *
+ * Checks the payment method each fee mode picks, for transactions and for
+ * deploying a new account. The Aztec classes are replaced with stand-ins
+ * that record how they were built.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@aztec/aztec.js/fields", () => ({
+  Fr: class {
+    constructor(public value: unknown) {}
+  },
+}));
+vi.mock("@aztec/aztec.js/addresses", () => ({
+  AztecAddress: { fromString: (value: string) => ({ address: value }) },
+}));
+vi.mock("@aztec/aztec.js/contracts", () => ({
+  getContractInstanceFromInstantiationParams: async () => ({ address: "sponsored-fpc" }),
+}));
+vi.mock("@aztec/aztec.js/fee", () => {
+  class PaymentMethod {
+    args: unknown[];
+    constructor(...args: unknown[]) {
+      this.args = args;
+    }
+  }
+  return {
+    FeeJuicePaymentMethod: class FeeJuicePaymentMethod extends PaymentMethod {},
+    PrivateFeePaymentMethod: class PrivateFeePaymentMethod extends PaymentMethod {},
+    PublicFeePaymentMethod: class PublicFeePaymentMethod extends PaymentMethod {},
+    SponsoredFeePaymentMethod: class SponsoredFeePaymentMethod extends PaymentMethod {},
+  };
+});
+vi.mock("@aztec/stdlib/gas", () => ({
+  GasSettings: { default: (settings: unknown) => ({ settings }) },
+}));
+vi.mock("@aztec/test-wallet/server", () => ({ TestWallet: class {} }));
+vi.mock("@aztec/noir-contracts.js/SponsoredFPC", () => ({ SponsoredFPCContractArtifact: {} }));
+vi.mock("@aztec/noir-contracts.js/FPC", () => ({ FPCContractArtifact: {} }));
+vi.mock("@aztec/constants", () => ({ SPONSORED_FPC_SALT: 0 }));
+
+import { createFeeStrategy } from "../cli/services/fees.js";
+
+const FPC = `0x${"0f".repeat(32)}`;
+
+// A node that finds any contract and reports base fees that record their padding
+const node = {
+  getContract: async (address: unknown) => ({ address }),
+  getCurrentBaseFees: async () => ({ mul: (factor: number) => ({ padded: factor }) }),
+} as any;
+
+/**
+ * A wallet that records the contracts registered with it.
+ */
+function fakeWallet() {
+  return {
+    registered: [] as unknown[],
+    async getContractMetadata() {
+      return undefined;
+    },
+    async registerContract(instance: unknown) {
+      this.registered.push(instance);
+    },
+  };
+}
+
+describe("CLI fee strategies", () => {
+  const from = { address: "sender" };
+  let wallet: ReturnType<typeof fakeWallet>;
+
+  beforeEach(() => {
+    wallet = fakeWallet();
+  });
+
+  it("sponsored: the SponsoredFPC pays, for transactions and account deployment", async () => {
+    const strategy = createFeeStrategy("sponsored", node);
+
+    const { paymentMethod } = await strategy.getFeeOptions(wallet as any, from as any);
+    expect(paymentMethod?.constructor.name).toBe("SponsoredFeePaymentMethod");
+    expect((paymentMethod as any).args).toEqual(["sponsored-fpc"]);
+    expect(wallet.registered).toEqual([{ address: "sponsored-fpc" }]);
+
+    const deployment = await strategy.getAccountDeploymentFeeOptions(wallet as any, from as any);
+    expect(deployment.paymentMethod?.constructor.name).toBe("SponsoredFeePaymentMethod");
+  });
+
+  it("fee-juice: the sender pays its own Fee Juice, and a new account pays for its deployment", async () => {
+    const strategy = createFeeStrategy("fee-juice", node);
+
+    expect(await strategy.getFeeOptions(wallet as any, from as any)).toEqual({});
+
+    const account = { address: "new-account" };
+    const { paymentMethod } = await strategy.getAccountDeploymentFeeOptions(wallet as any, account as any);
+    expect(paymentMethod?.constructor.name).toBe("FeeJuicePaymentMethod");
+    expect((paymentMethod as any).args).toEqual([account]);
+  });
+
+  it.each([
+    ["private-fpc", "PrivateFeePaymentMethod"],
+    ["public-fpc", "PublicFeePaymentMethod"],
+  ] as const)("%s: pays the configured FPC with padded gas prices", async (mode, method) => {
+    const strategy = createFeeStrategy(mode, node, FPC);
+
+    const { paymentMethod } = await strategy.getFeeOptions(wallet as any, from as any);
+    expect(paymentMethod?.constructor.name).toBe(method);
+    expect((paymentMethod as any).args).toEqual([{ address: FPC }, from, wallet, { settings: { maxFeesPerGas: { padded: 2 } } }]);
+    expect(wallet.registered).toEqual([{ address: { address: FPC } }]);
+
+    await expect(strategy.getAccountDeploymentFeeOptions(wallet as any, from as any)).rejects.toThrow(/can't be deployed with/);
+  });
+
+  it("FPC modes need an FPC address", async () => {
+    await expect(createFeeStrategy("private-fpc", node).getFeeOptions(wallet as any, from as any)).rejects.toThrow(/needs an FPC/);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Key Derivation - CLI and Web Player Agreement
+ *
+ * The CLI and the web player derive accounts from passphrases separately.
+ * These shared vectors check that both give the same secret key, so a
+ * player gets the same account in the browser as in the terminal.
+ */
+
+import { describe, it, expect } from "vitest";
+import { deriveSecretKey } from "../cli/services/wallet.js";
+import { deriveSecretKey as deriveWebSecretKey } from "../../web/src/keys.js";
+
+// scrypt (N = 2^17, r = 8, p = 1) reduced into the field, computed independently
+const V2_VECTOR = {
+  passphrase: "correct horse battery staple",
+  user: "Alice ",
+  secretKey: "0x0433c93b03106fbe75de7e7178f8fdbb3551f866ae2b28f97a5810e134c087a2",
+};
+
+describe("Passphrase key derivation", () => {
+  it("matches the v2 vector in the CLI and the web player", async () => {
+    const cli = await deriveSecretKey(V2_VECTOR.passphrase, { version: 2, user: V2_VECTOR.user });
+    const web = await deriveWebSecretKey(V2_VECTOR.passphrase, V2_VECTOR.user);
+
+    expect(cli.toString()).toBe(V2_VECTOR.secretKey);
+    expect(web.toString()).toBe(V2_VECTOR.secretKey);
+  });
+
+  it("normalizes the username the same way", async () => {
+    const web = await deriveWebSecretKey(V2_VECTOR.passphrase, "ALICE");
+    expect(web.toString()).toBe(V2_VECTOR.secretKey);
+  });
+
+  it("gives the same legacy v1 key in the CLI and the web player", async () => {
+    const cli = await deriveSecretKey("secret-santa", { version: 1 });
+    const web = await deriveWebSecretKey("secret-santa", "");
+
+    expect(web.toString()).toBe(cli.toString());
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * CLI Keystore - Encryption and File Tests
+ *
+ * Round-trips secret keys through the keystore with a cheap scrypt cost,
+ * and checks wrong passwords, duplicate names and the file's permissions.
+ */
+
+import { randomBytes } from "crypto";
+import { mkdtempSync, readFileSync, rmSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  addKeystoreWallet,
+  getKeystorePath,
+  getKeystoreWallet,
+  listKeystoreWallets,
+  unlockKeystoreWallet,
+} from "../cli/services/keystore.js";
+
+// Fast enough for tests; real wallets use N = 2^17
+const TEST_COST = { N: 2 ** 4, r: 8, p: 1 };
+const ADDRESS = `0x${"cd".repeat(32)}`;
+
+describe("CLI keystore", () => {
+  let dir: string;
+  let savedHome: string | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "zk-santa-keystore-"));
+    savedHome = process.env.ZK_HOME;
+    process.env.ZK_HOME = dir;
+  });
+
+  afterEach(() => {
+    if (savedHome === undefined) delete process.env.ZK_HOME;
+    else process.env.ZK_HOME = savedHome;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("decrypts a wallet's secret key with its password", async () => {
+    const secretKey = randomBytes(32);
+    const wallet = await addKeystoreWallet("alice", secretKey, ADDRESS, "random", "correct horse", TEST_COST);
+
+    expect(wallet).toEqual({ name: "alice", address: ADDRESS, source: "random", createdAt: expect.any(String) });
+    expect(getKeystoreWallet("alice")).toEqual(wallet);
+    expect(await unlockKeystoreWallet("alice", "correct horse")).toEqual(secretKey);
+  });
+
+  it("stores the key encrypted, with its scrypt cost", async () => {
+    const secretKey = randomBytes(32);
+    await addKeystoreWallet("alice", secretKey, ADDRESS, "random", "correct horse", TEST_COST);
+
+    const contents = readFileSync(getKeystorePath(), "utf-8");
+    expect(contents).not.toContain(secretKey.toString("hex"));
+    expect(JSON.parse(contents).wallets.alice.crypto.kdfParams).toMatchObject(TEST_COST);
+  });
+
+  it("rejects a wrong password", async () => {
+    await addKeystoreWallet("alice", randomBytes(32), ADDRESS, "random", "correct horse", TEST_COST);
+
+    await expect(unlockKeystoreWallet("alice", "wrong horse")).rejects.toThrow("Wrong password");
+  });
+
+  it("refuses duplicate and invalid names", async () => {
+    await addKeystoreWallet("alice", randomBytes(32), ADDRESS, "random", "correct horse", TEST_COST);
+
+    await expect(addKeystoreWallet("alice", randomBytes(32), ADDRESS, "random", "other", TEST_COST)).rejects.toThrow(
+      'Wallet "alice" already exists.'
+    );
+    await expect(addKeystoreWallet("../bob", randomBytes(32), ADDRESS, "random", "other", TEST_COST)).rejects.toThrow(
+      /Wallet names may only contain/
+    );
+    expect(listKeystoreWallets().map((wallet) => wallet.name)).toEqual(["alice"]);
+  });
+
+  it("fails to unlock a wallet that doesn't exist", async () => {
+    await expect(unlockKeystoreWallet("nobody", "password")).rejects.toThrow('Wallet "nobody" not found');
+  });
+
+  it.skipIf(process.platform === "win32")("makes the keystore file readable by its owner only", async () => {
+    await addKeystoreWallet("alice", randomBytes(32), ADDRESS, "random", "correct horse", TEST_COST);
+
+    expect(statSync(getKeystorePath()).mode & 0o777).toBe(0o600);
+  });
+});
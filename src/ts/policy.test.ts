@@ -0,0 +1,200 @@
+/**
+ * Request Policy - Retry, Timeout and Circuit Breaker Tests
+ *
+ * Runs calls through a policy on fake timers, so backoff delays, timeouts
+ * and the breaker's cooldown pass without waiting.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NodeUnavailableError, RequestTimeoutError } from "../cli/services/errors.js";
+import { RequestPolicy } from "../cli/services/policy.js";
+
+const OPTIONS = {
+  timeoutMs: 1_000,
+  maxAttempts: 3,
+  backoffMs: 100,
+  maxBackoffMs: 400,
+  breakerThreshold: 3,
+  breakerCooldownMs: 10_000,
+};
+
+/**
+ * A call that fails with a dropped connection the given number of times,
+ * then returns "ok".
+ */
+function flakyCall(failures: number) {
+  return vi.fn(async () => {
+    if (failures-- > 0) throw new Error("read ECONNRESET");
+    return "ok";
+  });
+}
+
+describe("RequestPolicy", () => {
+  let policy: RequestPolicy;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    policy = new RequestPolicy(OPTIONS);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("retries a transient failure until it succeeds", async () => {
+    const call = flakyCall(2);
+
+    const result = policy.run("getBlock", call);
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe("ok");
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after maxAttempts with the last error", async () => {
+    const call = flakyCall(Infinity);
+
+    const result = policy.run("getBlock", call);
+    const rejected = expect(result).rejects.toThrow("ECONNRESET");
+    await vi.runAllTimersAsync();
+
+    await rejected;
+    expect(call).toHaveBeenCalledTimes(OPTIONS.maxAttempts);
+  });
+
+  it("waits longer before each retry", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    const call = flakyCall(2);
+
+    const result = policy.run("getBlock", call);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(OPTIONS.backoffMs);
+    expect(call).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(OPTIONS.backoffMs);
+    expect(call).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(OPTIONS.backoffMs);
+    expect(call).toHaveBeenCalledTimes(3);
+
+    await expect(result).resolves.toBe("ok");
+  });
+
+  it("makes a single attempt with retry: false", async () => {
+    const call = flakyCall(1);
+
+    const result = policy.run("sendTx", call, { retry: false });
+    const rejected = expect(result).rejects.toThrow("ECONNRESET");
+    await vi.runAllTimersAsync();
+
+    await rejected;
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't retry a contract assertion", async () => {
+    const call = vi.fn(async () => {
+      throw new Error("Assertion failed: Only admin can create games 'caller.eq(admin)'");
+    });
+
+    await expect(policy.run("simulate", call)).rejects.toThrow("Only admin");
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it("times out an attempt that doesn't settle", async () => {
+    const call = vi.fn(() => new Promise<string>(() => {}));
+
+    const result = policy.run("getBlock", call, { retry: false, timeoutMs: 5_000 });
+    const rejected = expect(result).rejects.toThrow(RequestTimeoutError);
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(vi.getTimerCount()).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await rejected;
+    await expect(result).rejects.toThrow("getBlock timed out after 5s");
+  });
+
+  it("retries an attempt that timed out", async () => {
+    let calls = 0;
+    const call = vi.fn(() => (++calls === 1 ? new Promise<string>(() => {}) : Promise.resolve("ok")));
+
+    const result = policy.run("getBlock", call);
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe("ok");
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  describe("circuit breaker", () => {
+    /**
+     * Fail enough single-attempt calls in a row to open the circuit.
+     */
+    async function openCircuit() {
+      for (let i = 0; i < OPTIONS.breakerThreshold; i++) {
+        await expect(policy.run("getBlock", flakyCall(1), { retry: false })).rejects.toThrow("ECONNRESET");
+      }
+    }
+
+    it("opens after breakerThreshold transient failures and fails fast", async () => {
+      await openCircuit();
+      const call = flakyCall(0);
+
+      await expect(policy.run("getBlock", call)).rejects.toThrow(NodeUnavailableError);
+      await expect(policy.run("getBlock", call)).rejects.toThrow(/failed 3 times in a row, pausing calls for 10s/);
+      expect(call).not.toHaveBeenCalled();
+    });
+
+    it("stops retrying a call once the circuit opens", async () => {
+      policy.configure({ maxAttempts: 10 });
+      const call = flakyCall(Infinity);
+
+      const result = policy.run("getBlock", call);
+      const rejected = expect(result).rejects.toThrow(NodeUnavailableError);
+      await vi.runAllTimersAsync();
+
+      await rejected;
+      expect(call).toHaveBeenCalledTimes(OPTIONS.breakerThreshold);
+    });
+
+    it("doesn't count failures that aren't transient", async () => {
+      const assertion = async () => {
+        throw new Error("Assertion failed: Only admin can create games 'caller.eq(admin)'");
+      };
+      for (let i = 0; i < OPTIONS.breakerThreshold; i++) {
+        await expect(policy.run("simulate", assertion)).rejects.toThrow("Only admin");
+      }
+
+      await expect(policy.run("getBlock", flakyCall(0))).resolves.toBe("ok");
+    });
+
+    it("lets one call through after the cooldown and closes when it succeeds", async () => {
+      await openCircuit();
+      await vi.advanceTimersByTimeAsync(OPTIONS.breakerCooldownMs);
+      const call = flakyCall(0);
+
+      await expect(policy.run("getBlock", call)).resolves.toBe("ok");
+      expect(call).toHaveBeenCalledTimes(1);
+
+      // Closed again: one more failure doesn't open it
+      await expect(policy.run("getBlock", flakyCall(1), { retry: false })).rejects.toThrow("ECONNRESET");
+      await expect(policy.run("getBlock", flakyCall(0))).resolves.toBe("ok");
+    });
+
+    it("reopens for another cooldown when the call after it fails", async () => {
+      await openCircuit();
+      await vi.advanceTimersByTimeAsync(OPTIONS.breakerCooldownMs);
+      const probe = flakyCall(Infinity);
+
+      const result = policy.run("getBlock", probe);
+      const rejected = expect(result).rejects.toThrow(NodeUnavailableError);
+      await vi.runAllTimersAsync();
+      await rejected;
+      // The failed trial reopened the circuit before its first retry
+      expect(probe).toHaveBeenCalledTimes(1);
+
+      const call = flakyCall(0);
+      await expect(policy.run("getBlock", call)).rejects.toThrow(NodeUnavailableError);
+      await vi.advanceTimersByTimeAsync(OPTIONS.breakerCooldownMs);
+      await expect(policy.run("getBlock", call)).resolves.toBe("ok");
+    });
+  });
+});
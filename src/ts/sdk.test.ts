@@ -0,0 +1,44 @@
+/**
+ * SDK - Import Graph Tests
+ *
+ * The SDK must not load CLI config, which reads files from the working and
+ * home directories and can print warnings. Walks the SDK's runtime imports
+ * (type-only imports are erased) and checks what they reach.
+ */
+
+import { readFileSync } from "fs";
+import { dirname, join, relative } from "path";
+import { fileURLToPath } from "url";
+import { describe, it, expect } from "vitest";
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+
+// Matches `import ... from "./x.js"` and `export ... from "./x.js"`, but not `import type`
+const RUNTIME_IMPORT = /^(?:import|export)(?!\s+type\b)[^;]*?from\s+"(\.[^"]+)"/gm;
+
+/**
+ * Collect the local modules a module loads at runtime, directly or not.
+ */
+function runtimeImports(entry: string): Set<string> {
+  const seen = new Set<string>();
+  const visit = (file: string) => {
+    if (seen.has(file)) return;
+    seen.add(file);
+    for (const [, specifier] of readFileSync(file, "utf-8").matchAll(RUNTIME_IMPORT)) {
+      if (!specifier.endsWith(".js")) continue;
+      visit(join(dirname(file), specifier.replace(/\.js$/, ".ts")));
+    }
+  };
+  visit(entry);
+  return new Set([...seen].map((file) => relative(ROOT, file)));
+}
+
+describe("SDK imports", () => {
+  it("doesn't load the CLI's config or output", () => {
+    const modules = runtimeImports(join(ROOT, "sdk/index.ts"));
+
+    expect(modules).toContain("cli/services/client.ts");
+    expect(modules).not.toContain("cli/services/config.ts");
+    expect([...modules].filter((module) => module.startsWith("cli/utils/") || module.startsWith("cli/commands/"))).toEqual([]);
+  });
+});
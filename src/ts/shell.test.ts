@@ -0,0 +1,38 @@
+/**
+ * CLI Shell - Argument Splitting Tests
+ *
+ * Checks how a typed line is split into arguments, including quotes.
+ */
+
+import { describe, it, expect } from "vitest";
+import { splitArgs } from "../cli/commands/shell.js";
+
+describe("CLI shell splitArgs", () => {
+  it("splits on any run of whitespace", () => {
+    expect(splitArgs("  admin   create\t--min 3 ")).toEqual(["admin", "create", "--min", "3"]);
+    expect(splitArgs("")).toEqual([]);
+    expect(splitArgs("   ")).toEqual([]);
+  });
+
+  it("keeps quoted text together, including empty arguments", () => {
+    expect(splitArgs(`games add 4 --alias "office party"`)).toEqual(["games", "add", "4", "--alias", "office party"]);
+    expect(splitArgs(`-p 'my pass phrase' status`)).toEqual(["-p", "my pass phrase", "status"]);
+    expect(splitArgs(`-p "" status`)).toEqual(["-p", "", "status"]);
+  });
+
+  it("joins quoted and unquoted parts of one argument", () => {
+    expect(splitArgs(`--alias=office" party"`)).toEqual(["--alias=office party"]);
+    expect(splitArgs(`'a'"b"c`)).toEqual(["abc"]);
+  });
+
+  it("unescapes characters only inside double quotes", () => {
+    expect(splitArgs(`-p "say \\"hi\\" \\\\ bye"`)).toEqual(["-p", `say "hi" \\ bye`]);
+    expect(splitArgs(`-p 'back\\slash'`)).toEqual(["-p", "back\\slash"]);
+    expect(splitArgs(`-p "it's"`)).toEqual(["-p", "it's"]);
+  });
+
+  it("rejects an unclosed quote", () => {
+    expect(() => splitArgs(`-p "open`)).toThrow(`Unclosed " in command`);
+    expect(() => splitArgs(`-p 'open`)).toThrow(`Unclosed ' in command`);
+  });
+});
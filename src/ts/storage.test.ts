@@ -0,0 +1,79 @@
+/**
+ * CLI Storage - File Lock Tests
+ *
+ * Checks that a lock left by a dead process is taken over, and that a lock
+ * held by a live process is waited for however old it is.
+ */
+
+import { spawn } from "child_process";
+import { mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { withFileLock } from "../cli/services/storage.js";
+
+const STORAGE_MODULE = fileURLToPath(new URL("../cli/services/storage.ts", import.meta.url));
+
+/**
+ * Take the lock in another process (it blocks its thread while waiting),
+ * resolving with the time it got the lock.
+ */
+function lockInProcess(file: string): Promise<number> {
+  const script = `
+    const { withFileLock } = await import(${JSON.stringify(STORAGE_MODULE)});
+    process.stdout.write(String(withFileLock(${JSON.stringify(file)}, () => Date.now())));
+  `;
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ["--import", "tsx", "--input-type=module", "-e", script]);
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk) => (stdout += chunk));
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+    child.on("error", reject);
+    child.on("close", (code) => (code === 0 ? resolve(Number(stdout)) : reject(new Error(stderr))));
+  });
+}
+
+/**
+ * Start a process that exits after `ms`, resolving with its pid and exit.
+ */
+function startProcess(ms: number): { pid: number; exited: Promise<number> } {
+  const child = spawn(process.execPath, ["-e", `setTimeout(() => {}, ${ms})`]);
+  const exited = new Promise<number>((resolve) => child.on("exit", () => resolve(Date.now())));
+  return { pid: child.pid!, exited };
+}
+
+describe("CLI file locks", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "zk-santa-lock-"));
+    file = join(dir, "data.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("takes over a lock whose holder died", async () => {
+    const holder = startProcess(0);
+    await holder.exited;
+    writeFileSync(`${file}.lock`, `${holder.pid} deadbeef\n`);
+
+    expect(withFileLock(file, () => "ran")).toBe("ran");
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it("waits for a live holder even if its lock is old", async () => {
+    const holder = startProcess(500);
+    writeFileSync(`${file}.lock`, `${holder.pid} deadbeef\n`);
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(`${file}.lock`, old, old);
+
+    const [ranAt, exitedAt] = await Promise.all([lockInProcess(file), holder.exited]);
+    expect(ranAt).toBeGreaterThanOrEqual(exitedAt);
+    expect(readdirSync(dir)).toEqual([]);
+  });
+});
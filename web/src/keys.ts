@@ -0,0 +1,33 @@
+/**
+ * ZK Secret Santa - Web Player Key Derivation
+ *
+ * Passphrase to account secret key, kept apart from the UI so tests can
+ * check it against the CLI. Must match deriveSecretKey in
+ * src/cli/services/wallet.ts, or players get a different account here.
+ */
+
+import { Fr } from "@aztec/aztec.js/fields";
+import { poseidon2Hash } from "@aztec/foundation/crypto/poseidon";
+import { scryptAsync } from "@noble/hashes/scrypt";
+
+// Helper: passphrase to secret key (legacy v1 derivation)
+function passphraseToSecretKey(passphrase: string): Fr {
+  const paddedPassphrase = passphrase.padEnd(32, "#");
+  const bytes = Buffer.from(paddedPassphrase, "utf-8");
+  return Fr.fromBufferReduce(bytes);
+}
+
+// Helper: derive secret key with v2 (scrypt salted with the username)
+async function deriveSecretKeyV2(passphrase: string, username: string): Promise<Fr> {
+  const salt = `zk-secret-santa:v2:${username.trim().toLowerCase().normalize("NFKC")}`;
+  const derived = await scryptAsync(passphrase.normalize("NFKC"), salt, { N: 2 ** 17, r: 8, p: 1, dkLen: 32 });
+  return Fr.fromBufferReduce(Buffer.from(derived));
+}
+
+// Derive the account secret key, v2 when a username is given
+export async function deriveSecretKey(passphrase: string, username: string): Promise<Fr> {
+  if (username.trim()) {
+    return deriveSecretKeyV2(passphrase, username);
+  }
+  return poseidon2Hash([passphraseToSecretKey(passphrase)]);
+}
@@ -7,6 +7,8 @@
 import { createAztecNodeClient } from "@aztec/aztec.js/node";
 import { AztecAddress } from "@aztec/aztec.js/addresses";
 import { Fr } from "@aztec/aztec.js/fields";
+import { Fq } from "@aztec/foundation/curves/bn254";
+import type { GrumpkinScalar } from "@aztec/foundation/curves/grumpkin";
 import type { AztecNode } from "@aztec/aztec.js/node";
 import type { PXE } from "@aztec/pxe/server";
 import { getPXEConfig } from "@aztec/pxe/config";
@@ -25,6 +27,8 @@ import {
 } from "../../artifacts/SecretSanta.js";
 import { encryptDeliveryData, decryptDeliveryData, isEncryptedDataEmpty } from "./crypto.js";
 import { MinimalWallet } from "./MinimalWallet.js";
+import { deriveSecretKey } from "./keys.js";
+import { describeError } from "../../src/cli/services/errors.js";
 
 // Game phase constants
 const PHASE = {
@@ -78,6 +82,7 @@ const pxeUrlInput = document.getElementById("pxe-url") as HTMLInputElement;
 const contractInput = document.getElementById("contract-address") as HTMLInputElement;
 const gameIdInput = document.getElementById("game-id") as HTMLInputElement;
 const passphraseInput = document.getElementById("passphrase") as HTMLInputElement;
+const usernameInput = document.getElementById("username") as HTMLInputElement;
 const connectBtn = document.getElementById("connect-btn") as HTMLButtonElement;
 const setupHeader = document.getElementById("setup-header")!;
 const setupContent = document.getElementById("setup-content")!;
@@ -113,6 +118,13 @@ function log(msg: string, isError = false) {
   logEl.scrollTop = logEl.scrollHeight;
 }
 
+// Log a failure, mapping contract assertions to a readable error and hint
+function logError(prefix: string, err: unknown) {
+  const { message, hint } = describeError(err);
+  log(`${prefix}: ${message}`, true);
+  if (hint) log(hint, true);
+}
+
 // Load saved settings
 function loadSettings() {
   // Set network from URL query param
@@ -126,6 +138,7 @@ function loadSettings() {
       const settings = JSON.parse(saved);
       if (settings.contractAddress) contractInput.value = settings.contractAddress;
       if (settings.gameId) gameIdInput.value = settings.gameId;
+      if (settings.username) usernameInput.value = settings.username;
       if (settings.senderSlot) senderSlot = settings.senderSlot;
     } catch {
       // Ignore
@@ -141,17 +154,11 @@ function saveSettings() {
     pxeUrl: pxeUrlInput.value,
     contractAddress: contractInput.value,
     gameId: gameIdInput.value,
+    username: usernameInput.value,
     senderSlot,
   }));
 }
 
-// Helper: passphrase to secret key
-function passphraseToSecretKey(passphrase: string): Fr {
-  const paddedPassphrase = passphrase.padEnd(32, "#");
-  const bytes = Buffer.from(paddedPassphrase, "utf-8");
-  return Fr.fromBufferReduce(bytes);
-}
-
 // Helper: get sponsored FPC instance
 async function getSponsoredFPCInstance() {
   return await getContractInstanceFromInstantiationParams(
@@ -160,10 +167,19 @@ async function getSponsoredFPCInstance() {
   );
 }
 
-// Helper: get encryption public key
-async function getEncryptionPublicKey(sk: Fr): Promise<{ x: Fr; y: Fr; is_infinite: boolean }> {
-  const signingKey = deriveSigningKey(sk);
-  const publicKey = await derivePublicKeyFromSecretKey(signingKey);
+// Domain separator for game-scoped encryption keys ("santa-enc" in ASCII)
+const ENCRYPTION_KEY_DOMAIN = new Fr(0x73616e74612d656e63n);
+
+// Helper: derive this game's encryption private key, separate from the signing key.
+// Must match deriveEncryptionPrivateKey in src/cli/services/wallet.ts.
+async function deriveEncryptionPrivateKey(sk: Fr, contractAddress: AztecAddress, game: bigint): Promise<GrumpkinScalar> {
+  const hash = await poseidon2Hash([ENCRYPTION_KEY_DOMAIN, sk, contractAddress.toField(), new Fr(game)]);
+  return new Fq(hash.toBigInt());
+}
+
+// Helper: public key for an encryption private key, as the contract stores it
+async function toEncryptionPublicKey(privateKey: GrumpkinScalar): Promise<{ x: Fr; y: Fr; is_infinite: boolean }> {
+  const publicKey = await derivePublicKeyFromSecretKey(privateKey);
   return {
     x: new Fr(publicKey.x.toBigInt()),
     y: new Fr(publicKey.y.toBigInt()),
@@ -171,9 +187,26 @@ async function getEncryptionPublicKey(sk: Fr): Promise<{ x: Fr; y: Fr; is_infini
   };
 }
 
-// Helper: get decryption private key
-function getDecryptionPrivateKey(sk: Fr) {
-  return deriveSigningKey(sk);
+// Helper: get this game's encryption public key
+async function getEncryptionPublicKey(sk: Fr, contractAddress: AztecAddress, game: bigint) {
+  return toEncryptionPublicKey(await deriveEncryptionPrivateKey(sk, contractAddress, game));
+}
+
+// Helper: get the decryption private key matching the key a slot published.
+// Slots registered before game-scoped keys used the signing key.
+async function getDecryptionPrivateKey(
+  sk: Fr,
+  contractAddress: AztecAddress,
+  game: bigint,
+  slotKey: { x: bigint | Fr; y: bigint | Fr }
+): Promise<GrumpkinScalar | null> {
+  for (const privateKey of [await deriveEncryptionPrivateKey(sk, contractAddress, game), deriveSigningKey(sk)]) {
+    const publicKey = await toEncryptionPublicKey(privateKey);
+    if (publicKey.x.toBigInt() === BigInt(slotKey.x.toString()) && publicKey.y.toBigInt() === BigInt(slotKey.y.toString())) {
+      return privateKey;
+    }
+  }
+  return null;
 }
 
 // Cached payment method
@@ -235,9 +268,9 @@ async function connect() {
     await pxe.registerContract({ instance: fpcInstance, artifact: SponsoredFPCContractArtifact });
 
     // Create account from passphrase
-    log("Creating account from passphrase...");
-    const rawKey = passphraseToSecretKey(passphrase);
-    secretKey = await poseidon2Hash([rawKey]);
+    const username = usernameInput.value;
+    log(username.trim() ? "Deriving key from passphrase (v2)..." : "Creating account from legacy passphrase...");
+    secretKey = await deriveSecretKey(passphrase, username);
     const signingKey = deriveSigningKey(secretKey);
 
     const accountContract = new SchnorrAccountContract(signingKey);
@@ -309,7 +342,7 @@ async function connect() {
     connectBtn.textContent = "Connected";
     collapseSetup();
   } catch (err) {
-    log(`Error: ${(err as Error).message}`, true);
+    logError("Error", err);
     connectBtn.disabled = false;
     connectBtn.textContent = "Connect";
   }
@@ -371,7 +404,7 @@ async function poll() {
       updateActionUI(cachedState.phase);
     }
   } catch (err) {
-    log(`Poll error: ${(err as Error).message}`, true);
+    logError("Poll error", err);
   } finally {
     isPolling = false;
   }
@@ -595,7 +628,7 @@ async function enroll() {
     log("Enrolled successfully!");
     await poll();
   } catch (err) {
-    log(`Enroll error: ${(err as Error).message}`, true);
+    logError("Enroll error", err);
     btn.disabled = false;
     btn.textContent = "Enroll in Game";
   } finally {
@@ -617,7 +650,7 @@ async function registerAsSender() {
     log(`Registering as sender in slot ${slot}...`);
 
     // Derive encryption public key
-    const pubKey = await getEncryptionPublicKey(secretKey);
+    const pubKey = await getEncryptionPublicKey(secretKey, contract.address, gameId);
 
     const paymentMethod = await getSponsoredPaymentMethod();
     await contract.methods.register_as_sender(gameId, slot, pubKey).send({ from: accountAddress, fee: { paymentMethod } }).wait();
@@ -628,7 +661,7 @@ async function registerAsSender() {
     log(`Registered as sender in slot ${slot}!`);
     await poll();
   } catch (err) {
-    log(`Register error: ${(err as Error).message}`, true);
+    logError("Register error", err);
     btn.disabled = false;
     btn.textContent = "Register as Sender";
   } finally {
@@ -672,7 +705,7 @@ async function claimAsReceiver() {
     log(`Claimed slot ${slot} as receiver!`);
     await poll();
   } catch (err) {
-    log(`Claim error: ${(err as Error).message}`, true);
+    logError("Claim error", err);
     btn.disabled = false;
     btn.textContent = "Claim as Receiver";
   } finally {
@@ -698,9 +731,15 @@ async function viewDelivery() {
       return;
     }
 
-    // Decrypt
+    // Decrypt with the key this slot published at registration
     log("Decrypting...");
-    const privateKey = getDecryptionPrivateKey(secretKey);
+    const slotKey = await contract.methods.get_slot_encryption_key(gameId, BigInt(slot)).simulate({ from: accountAddress });
+    const privateKey = await getDecryptionPrivateKey(secretKey, contract.address, gameId, slotKey);
+    if (!privateKey) {
+      resultEl.textContent = "This slot wasn't registered with your account's key.";
+      resultEl.className = "delivery-result";
+      return;
+    }
     const decrypted = await decryptDeliveryData(encryptedData, privateKey);
 
     resultEl.innerHTML = `<strong>Delivery Address:</strong><br>${decrypted}`;
@@ -708,7 +747,7 @@ async function viewDelivery() {
 
     log("Delivery address decrypted successfully!");
   } catch (err) {
-    log(`View error: ${(err as Error).message}`, true);
+    logError("View error", err);
   }
 }
 